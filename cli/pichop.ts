@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { CropMode, CropSelection, Grid, GridLine, Rect, ResampleFilter, SmartStrategy } from '../types';
+import { cropPixels } from '../components/ImageCropper/logic/cropCore';
+import { scanGrid } from '../components/ImageCropper/logic/gridCore';
+import { decodePng, encodePng } from './png';
+
+const USAGE = `Usage: pichop <input.png> [options]
+
+Removal options:
+  --remove-rows <a-b,...>   Remove row bands, e.g. 120-180,400-460 (end exclusive)
+  --remove-cols <a-b,...>   Remove column bands
+  --select <x,y,w,h>        Add a rectangular selection (repeatable)
+  --recipe <file.json>      Load { "selections": CropSelection[], "mode"?: CropMode, "smart"?: boolean,
+                            "strategy"?: SmartStrategy, "resample"?: ResampleFilter,
+                            "redrawBorders"?: boolean, "grid"?: Grid }
+  --mode <m>                Crop mode for selections without an "axis":
+                            horizontal | vertical | both (default: horizontal)
+
+Smart mode:
+  --smart                   Protect cell content (cut blank lines first, then apply --strategy)
+  --strategy <s>            What to do when a cell has too few blank lines:
+                            cut | squish | seam (default: squish)
+  --resample <f>            Filter for squished cells: nearest | box | lanczos (default: box)
+  --redraw-borders          Repaint table borders across the seams left by removed rows/columns
+  --detect                  Auto-detect the table grid (implied by --smart when no grid is given)
+  --print-grid              Print the grid used for cropping as JSON to stdout
+
+Output:
+  -o, --output <file.png>   Write the result
+  -h, --help                Show this help
+`;
+
+const MODES: CropMode[] = ['horizontal', 'vertical', 'both'];
+const STRATEGIES: SmartStrategy[] = ['cut', 'squish', 'seam'];
+const FILTERS: ResampleFilter[] = ['nearest', 'box', 'lanczos'];
+
+class CliError extends Error {}
+
+interface Recipe {
+  selections?: CropSelection[];
+  mode?: CropMode;
+  smart?: boolean;
+  strategy?: SmartStrategy;
+  resample?: ResampleFilter;
+  redrawBorders?: boolean;
+  grid?: Grid;
+}
+
+interface Options {
+  input?: string;
+  output?: string;
+  rows: { start: number; end: number }[];
+  cols: { start: number; end: number }[];
+  selections: Rect[];
+  recipe?: string;
+  mode?: CropMode;
+  smart: boolean;
+  strategy?: SmartStrategy;
+  resample?: ResampleFilter;
+  redrawBorders: boolean;
+  detect: boolean;
+  printGrid: boolean;
+  help: boolean;
+}
+
+const parseRanges = (value: string, flag: string) =>
+  value.split(',').filter(Boolean).map(part => {
+    const m = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(part);
+    if (!m || Number(m[2]) <= Number(m[1])) throw new CliError(`${flag}: invalid range "${part}" (expected start-end)`);
+    return { start: Number(m[1]), end: Number(m[2]) };
+  });
+
+const parseRect = (value: string): Rect => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) {
+    throw new CliError(`--select: invalid rectangle "${value}" (expected x,y,w,h)`);
+  }
+  const [x, y, w, h] = parts;
+  return { x, y, w, h };
+};
+
+const isRect = (value: unknown): value is Rect => {
+  const r = value as Rect | null;
+  return typeof r === 'object' && r !== null &&
+    [r.x, r.y, r.w, r.h].every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
+const isGridLine = (value: unknown): value is GridLine => {
+  const l = value as GridLine | null;
+  return typeof l === 'object' && l !== null &&
+    [l.pos, l.thickness, l.start, l.end].every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
+const isGrid = (value: unknown): value is Grid => {
+  const g = value as Grid | null;
+  return typeof g === 'object' && g !== null &&
+    Array.isArray(g.horizontal) && g.horizontal.every(isGridLine) &&
+    Array.isArray(g.vertical) && g.vertical.every(isGridLine);
+};
+
+// Lines run along one axis (start..end) at `pos` on the other; both must lie within the image
+const checkGridBounds = (grid: Grid, width: number, height: number) => {
+  const check = (l: GridLine, axis: 'horizontal' | 'vertical', i: number) => {
+    const posLimit = axis === 'horizontal' ? height : width;
+    const spanLimit = axis === 'horizontal' ? width : height;
+    if (l.pos < 0 || l.pos > posLimit || l.thickness < 0 || l.start < 0 || l.end > spanLimit || l.end < l.start) {
+      throw new CliError(`recipe grid: ${axis} line ${i} (pos ${l.pos}, ${l.start}-${l.end}) does not fit within the ${width}x${height} image`);
+    }
+  };
+  grid.horizontal.forEach((l, i) => check(l, 'horizontal', i));
+  grid.vertical.forEach((l, i) => check(l, 'vertical', i));
+};
+
+// Out-of-bounds parts would otherwise still count towards the removed size and eat real content
+const checkBounds = (r: Rect, label: string, width: number, height: number) => {
+  if (r.w <= 0 || r.h <= 0 || r.x < 0 || r.y < 0 || r.x + r.w > width || r.y + r.h > height) {
+    throw new CliError(`${label} does not fit within the ${width}x${height} image`);
+  }
+};
+
+const parseMode = (value: string | undefined): CropMode => {
+  if (!MODES.includes(value as CropMode)) throw new CliError(`invalid mode "${value}" (expected ${MODES.join(' | ')})`);
+  return value as CropMode;
+};
+
+const parseStrategy = (value: string | undefined): SmartStrategy => {
+  if (!STRATEGIES.includes(value as SmartStrategy)) {
+    throw new CliError(`invalid strategy "${value}" (expected ${STRATEGIES.join(' | ')})`);
+  }
+  return value as SmartStrategy;
+};
+
+const parseFilter = (value: string | undefined): ResampleFilter => {
+  if (!FILTERS.includes(value as ResampleFilter)) {
+    throw new CliError(`invalid resample filter "${value}" (expected ${FILTERS.join(' | ')})`);
+  }
+  return value as ResampleFilter;
+};
+
+const parseArgs = (argv: string[]): Options => {
+  const opts: Options = { rows: [], cols: [], selections: [], smart: false, redrawBorders: false, detect: false, printGrid: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new CliError(`${arg} requires a value`);
+      return v;
+    };
+
+    switch (arg) {
+      case '-h': case '--help': opts.help = true; break;
+      case '-o': case '--output': opts.output = next(); break;
+      case '--remove-rows': opts.rows.push(...parseRanges(next(), arg)); break;
+      case '--remove-cols': opts.cols.push(...parseRanges(next(), arg)); break;
+      case '--select': opts.selections.push(parseRect(next())); break;
+      case '--recipe': opts.recipe = next(); break;
+      case '--mode': opts.mode = parseMode(next()); break;
+      case '--smart': opts.smart = true; break;
+      case '--strategy': opts.strategy = parseStrategy(next()); break;
+      case '--resample': opts.resample = parseFilter(next()); break;
+      case '--redraw-borders': opts.redrawBorders = true; break;
+      case '--detect': opts.detect = true; break;
+      case '--print-grid': opts.printGrid = true; break;
+      default:
+        if (arg.startsWith('-')) throw new CliError(`unknown option ${arg}`);
+        if (opts.input) throw new CliError(`unexpected argument ${arg}`);
+        opts.input = arg;
+    }
+  }
+  return opts;
+};
+
+const loadRecipe = (file: string): Recipe => {
+  let recipe: Recipe;
+  try {
+    recipe = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new CliError(`cannot read recipe ${file}: ${(err as Error).message}`);
+  }
+  if (recipe.mode !== undefined) parseMode(recipe.mode);
+  if (recipe.strategy !== undefined) parseStrategy(recipe.strategy);
+  if (recipe.resample !== undefined) parseFilter(recipe.resample);
+  if (recipe.selections !== undefined && !Array.isArray(recipe.selections)) {
+    throw new CliError(`recipe ${file}: "selections" must be an array of {x, y, w, h}`);
+  }
+  recipe.selections?.forEach((sel, i) => {
+    if (!isRect(sel)) throw new CliError(`recipe ${file}: selection ${i} must have numeric x, y, w, h`);
+    if (sel.axis !== undefined) parseMode(sel.axis);
+  });
+  if (recipe.grid !== undefined && !isGrid(recipe.grid)) {
+    throw new CliError(`recipe ${file}: "grid" must be { "horizontal": GridLine[], "vertical": GridLine[] } with numeric pos, thickness, start, end`);
+  }
+  return recipe;
+};
+
+const run = (argv: string[]) => {
+  const opts = parseArgs(argv);
+  if (opts.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (!opts.input) throw new CliError('missing input file\n\n' + USAGE);
+
+  const recipe = opts.recipe ? loadRecipe(opts.recipe) : {};
+  const smart = opts.smart || recipe.smart === true;
+  const strategy = opts.strategy ?? recipe.strategy ?? 'squish';
+  const resample = opts.resample ?? recipe.resample ?? 'box';
+  const redrawBorders = opts.redrawBorders || recipe.redrawBorders === true;
+
+  let image;
+  try {
+    image = decodePng(readFileSync(opts.input));
+  } catch (err) {
+    throw new CliError(`cannot decode ${opts.input}: ${(err as Error).message}`);
+  }
+
+  opts.rows.forEach(r => checkBounds({ x: 0, y: r.start, w: image.width, h: r.end - r.start }, `--remove-rows: range ${r.start}-${r.end}`, image.width, image.height));
+  opts.cols.forEach(c => checkBounds({ x: c.start, y: 0, w: c.end - c.start, h: image.height }, `--remove-cols: range ${c.start}-${c.end}`, image.width, image.height));
+  opts.selections.forEach(r => checkBounds(r, `--select: rectangle ${r.x},${r.y},${r.w},${r.h}`, image.width, image.height));
+  recipe.selections?.forEach((r, i) => checkBounds(r, `recipe selection ${i} (${r.x},${r.y},${r.w},${r.h})`, image.width, image.height));
+  if (recipe.grid) checkGridBounds(recipe.grid, image.width, image.height);
+
+  // Row/column bands carry their own axis, so they never remove along the other one
+  const selections: CropSelection[] = [
+    ...(recipe.selections ?? []),
+    ...opts.selections,
+    ...opts.rows.map((r): CropSelection => ({ x: 0, y: r.start, w: image.width, h: r.end - r.start, axis: 'horizontal' })),
+    ...opts.cols.map((c): CropSelection => ({ x: c.start, y: 0, w: c.end - c.start, h: image.height, axis: 'vertical' }))
+  ];
+
+  const mode: CropMode = opts.mode ?? recipe.mode ?? 'horizontal';
+
+  let grid: Grid | null = recipe.grid ?? null;
+  if (!grid && (opts.detect || smart || redrawBorders || opts.printGrid)) grid = scanGrid(image);
+
+  if (opts.printGrid) process.stdout.write(JSON.stringify(grid, null, 2) + '\n');
+
+  if (!opts.output) {
+    if (opts.printGrid) return;
+    throw new CliError('missing -o <output.png>');
+  }
+  if (selections.length === 0) throw new CliError('nothing to remove (use --remove-rows, --remove-cols, --select or --recipe)');
+
+  const result = cropPixels(image, selections, grid, mode, smart, strategy, resample, redrawBorders);
+  writeFileSync(opts.output, encodePng(result.image));
+  process.stderr.write(`${opts.input} (${image.width}x${image.height}) -> ${opts.output} (${result.image.width}x${result.image.height})\n`);
+};
+
+try {
+  run(process.argv.slice(2));
+} catch (err) {
+  if (!(err instanceof CliError)) throw err;
+  process.stderr.write(`pichop: ${err.message}\n`);
+  process.exitCode = 1;
+}
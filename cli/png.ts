@@ -0,0 +1,218 @@
+import { inflateSync, deflateSync } from 'node:zlib';
+import { PixelBuffer } from '../components/ImageCropper/types';
+import { PNG_SIGNATURE, pngChunk, pngHeader } from '../components/ImageCropper/logic/pngChunks';
+
+// Minimal PNG codec so the CLI can run without a browser or native image libraries.
+// Decodes every standard colour type / bit depth (including palette, tRNS and Adam7
+// interlacing) to 8-bit RGBA; always encodes 8-bit RGBA.
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+  [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+const unfilter = (raw: Uint8Array, offset: number, width: number, height: number, bitsPerPixel: number) => {
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil(width * bitsPerPixel / 8);
+  const out = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[offset];
+    const src = offset + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let v = raw[src + x];
+      switch (filter) {
+        case 0: break;
+        case 1: v += left; break;
+        case 2: v += up; break;
+        case 3: v += (left + up) >> 1; break;
+        case 4: v += paeth(left, up, upLeft); break;
+        default: throw new Error(`Unsupported PNG filter type ${filter}`);
+      }
+      out[row + x] = v;
+    }
+    offset += stride + 1;
+  }
+  return { pixels: out, stride, nextOffset: offset };
+};
+
+export const decodePng = (file: Uint8Array): PixelBuffer => {
+  const buf = Buffer.from(file.buffer, file.byteOffset, file.byteLength);
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error('Not a PNG file');
+
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let trns: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= buf.length) {
+    const len = buf.readUInt32BE(pos);
+    const type = buf.toString('latin1', pos + 4, pos + 8);
+    const data = buf.subarray(pos + 8, pos + 8 + len);
+    pos += 12 + len;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      trns = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) throw new Error('Invalid or unsupported PNG header');
+  if (colorType === 3 && !palette) throw new Error('Palette PNG without PLTE chunk');
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const maxVal = (1 << bitDepth) - 1;
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // Read sample `i` of a scanline at the given bit depth, scaled to 0..255
+  // (palette indices are returned unscaled).
+  const sample = (px: Uint8Array, rowStart: number, i: number, scale: boolean) => {
+    if (bitDepth === 8) return px[rowStart + i];
+    if (bitDepth === 16) return scale ? px[rowStart + i * 2] : (px[rowStart + i * 2] << 8) | px[rowStart + i * 2 + 1];
+    const bit = i * bitDepth;
+    const v = (px[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxVal;
+    return scale ? Math.round(v * 255 / maxVal) : v;
+  };
+
+  // Raw (unscaled) grey / RGB sample for tRNS comparison
+  const rawSample = (px: Uint8Array, rowStart: number, i: number) =>
+    bitDepth === 16 ? (px[rowStart + i * 2] << 8) | px[rowStart + i * 2 + 1] : sample(px, rowStart, i, false);
+
+  const writePixel = (px: Uint8Array, rowStart: number, x: number, dest: number) => {
+    const s = x * channels;
+    let r: number, g: number, b: number, a = 255;
+    switch (colorType) {
+      case 0: {
+        r = g = b = sample(px, rowStart, s, true);
+        if (trns && trns.length >= 2 && rawSample(px, rowStart, s) === trns.readUInt16BE(0)) a = 0;
+        break;
+      }
+      case 2: {
+        r = sample(px, rowStart, s, true);
+        g = sample(px, rowStart, s + 1, true);
+        b = sample(px, rowStart, s + 2, true);
+        if (trns && trns.length >= 6 &&
+            rawSample(px, rowStart, s) === trns.readUInt16BE(0) &&
+            rawSample(px, rowStart, s + 1) === trns.readUInt16BE(2) &&
+            rawSample(px, rowStart, s + 2) === trns.readUInt16BE(4)) a = 0;
+        break;
+      }
+      case 3: {
+        const idx = sample(px, rowStart, s, false);
+        r = palette![idx * 3];
+        g = palette![idx * 3 + 1];
+        b = palette![idx * 3 + 2];
+        if (trns && idx < trns.length) a = trns[idx];
+        break;
+      }
+      case 4: {
+        r = g = b = sample(px, rowStart, s, true);
+        a = sample(px, rowStart, s + 1, true);
+        break;
+      }
+      default: {
+        r = sample(px, rowStart, s, true);
+        g = sample(px, rowStart, s + 1, true);
+        b = sample(px, rowStart, s + 2, true);
+        a = sample(px, rowStart, s + 3, true);
+      }
+    }
+    out[dest] = r; out[dest + 1] = g; out[dest + 2] = b; out[dest + 3] = a;
+  };
+
+  if (interlace === 0) {
+    const { pixels, stride } = unfilter(raw, 0, width, height, bitsPerPixel);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) writePixel(pixels, y * stride, x, (y * width + x) * 4);
+    }
+  } else {
+    let offset = 0;
+    for (const [x0, y0, dx, dy] of ADAM7) {
+      const pw = Math.ceil((width - x0) / dx);
+      const ph = Math.ceil((height - y0) / dy);
+      if (pw <= 0 || ph <= 0) continue;
+      const { pixels, stride, nextOffset } = unfilter(raw, offset, pw, ph, bitsPerPixel);
+      offset = nextOffset;
+      for (let y = 0; y < ph; y++) {
+        for (let x = 0; x < pw; x++) {
+          writePixel(pixels, y * stride, x, ((y0 + y * dy) * width + (x0 + x * dx)) * 4);
+        }
+      }
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+export const encodePng = (image: PixelBuffer): Buffer => {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+
+  // Per-row adaptive filtering: pick whichever of None/Sub/Up/Paeth has the
+  // smallest sum of absolute residuals.
+  const candidate = Buffer.alloc(stride);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const dest = y * (stride + 1);
+    let bestFilter = 0;
+    let bestScore = Infinity;
+
+    for (const filter of [0, 1, 2, 4]) {
+      let score = 0;
+      for (let x = 0; x < stride; x++) {
+        const v = data[row + x];
+        const left = x >= 4 ? data[row + x - 4] : 0;
+        const up = y > 0 ? data[row - stride + x] : 0;
+        const upLeft = y > 0 && x >= 4 ? data[row - stride + x - 4] : 0;
+        const pred = filter === 0 ? 0 : filter === 1 ? left : filter === 2 ? up : paeth(left, up, upLeft);
+        const r = (v - pred) & 0xff;
+        candidate[x] = r;
+        score += r < 128 ? r : 256 - r;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        raw[dest] = filter;
+        candidate.copy(raw, dest + 1);
+      }
+    }
+    raw[dest] = bestFilter;
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', pngHeader(width, height)),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+};
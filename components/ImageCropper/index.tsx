@@ -1,12 +1,20 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Rect, HistoryItem, CropMode, Grid } from '../../types';
-import { detectGrid } from './logic/gridDetection';
-import { performErase, getActualCells } from './logic/gridManipulation';
-import { processImageCrop } from './logic/imageProcessor';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import { Rect, HistoryItem, CropMode, CropSelection, Grid, ResampleFilter, SmartStrategy } from '../../types';
+import { detectGrid, loadDetectionSettings, saveDetectionSettings, loadAutoDeskew, saveAutoDeskew } from './logic/gridDetection';
+import { performErase, createCellIndex, createDraftLine, addGridLine, findHoveredSegment, beginLineDrag, applyLineDrag, sortGridLines } from './logic/gridManipulation';
+import { loadPixelBuffer, ImageTooLargeError } from './logic/canvasIO';
+import { processImageCrop, previewImageCrop, processShiftDelete, processReorder, processInsertSpace, processRedact, processDeskew, CropPreview, DeskewJob } from './logic/imageProcessor';
+import { getReorderTargets, getReorderBand, findReorderTarget } from './logic/reorder';
+import { DEFAULT_INSERT_SETTINGS, getInsertPosition } from './logic/insertSpace';
+import { DEFAULT_REDACT_SETTINGS } from './logic/redact';
+import { Range } from './logic/cropCore';
+import { Point, clampScale, getFocalPan, getWheelDelta, getWheelZoomFactor } from './logic/viewport';
+import { findBlankBands, proposalsToSelections, findProposalAt, DEFAULT_GAP_SETTINGS } from './logic/gapDetection';
+import { normalizeRect, findSelectionHandle, beginSelectionDrag, applySelectionDrag, nudgeRect, clampRect, getBandRect } from './logic/selectionEditing';
 import { CanvasView } from './ui/CanvasView';
 import { ControlPanel } from './ui/ControlPanel';
 import { FloatingControls } from './ui/FloatingControls';
-import { EraserHover } from './types';
+import { EraserHover, GridTool, DraftLine, PixelBuffer, LineDrag, DetectionSettings, GapProposal, GapSettings, PreviewView, SelectionDrag, SelectionHandle, BandDrag, ShiftDirection, ReorderDrag, InsertSettings, RedactSettings } from './types';
 
 interface ImageCropperProps {
   initialImage: string;
@@ -19,27 +27,72 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
   const [scale, setScale] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 }); // Navigation pan
   
-  const [selections, setSelections] = useState<Rect[]>([]);
+  const [selections, setSelections] = useState<CropSelection[]>([]);
   const [currentDrag, setCurrentDrag] = useState<Rect | null>(null);
+  const [activeSelection, setActiveSelection] = useState<number | null>(null); // Target of nudging and numeric editing
+  const [hoveredHandle, setHoveredHandle] = useState<SelectionHandle | null>(null);
   const [grid, setGrid] = useState<Grid | null>(null);
   const [isEditingGrid, setIsEditingGrid] = useState(false);
-  const [eraserMode, setEraserMode] = useState<'segment' | 'line'>('segment'); // 'segment' | 'line'
+  const [gridTool, setGridTool] = useState<GridTool>('segment');
+  const [snapToEdges, setSnapToEdges] = useState(true); // Draw tool: snap new lines to content edges
+  const [isReordering, setIsReordering] = useState(false); // Drag rows/columns to a new position
+  const [reorderDrag, setReorderDrag] = useState<ReorderDrag | null>(null);
+  const [isInserting, setIsInserting] = useState(false); // Click to add padding rows/columns
+  const [insertSettings, setInsertSettings] = useState<InsertSettings>(DEFAULT_INSERT_SETTINGS);
+  const [insertAt, setInsertAt] = useState<number | null>(null);
+  const [redactSettings, setRedactSettings] = useState<RedactSettings>(DEFAULT_REDACT_SETTINGS);
 
   const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState(0);
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(loadDetectionSettings);
+  const [rescanItem, setRescanItem] = useState<HistoryItem | null>(null); // Step to re-detect with new settings
+  const [autoDeskew, setAutoDeskew] = useState(loadAutoDeskew); // Straighten rotated scans on load
+  const [isDeskewing, setIsDeskewing] = useState(false);
+  const [deskewProgress, setDeskewProgress] = useState(0); // 0..1, from the deskew worker
+  const [deskewAngle, setDeskewAngle] = useState<number | null>(null); // Last rotation applied, 0 = already level
   const [showToast, setShowToast] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null); // Shown briefly over the canvas
   const [smartMode, setSmartMode] = useState(true); // Default to Smart Mode
+  const [smartStrategy, setSmartStrategy] = useState<SmartStrategy>('squish');
+  const [resampleFilter, setResampleFilter] = useState<ResampleFilter>('box');
+  const [redrawBorders, setRedrawBorders] = useState(false); // Repaint table borders across cut seams
+
+  // Auto gap finder: proposals stay pending until the user applies them
+  const [gapSettings, setGapSettings] = useState<GapSettings>(DEFAULT_GAP_SETTINGS);
+  const [gapProposals, setGapProposals] = useState<GapProposal[]>([]);
+  const [isFindingGaps, setIsFindingGaps] = useState(false);
+
+  // Crop preview: the pending result is re-rendered (debounced) as selections change
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewMode, setPreviewMode] = useState<CropMode>('horizontal');
+  const [previewView, setPreviewView] = useState<PreviewView>('slider');
+  const [previewSplit, setPreviewSplit] = useState(0.5);
+  const [preview, setPreview] = useState<CropPreview | null>(null);
+  const [isRenderingPreview, setIsRenderingPreview] = useState(false);
   
   // UI interaction states
   const [hoveredCell, setHoveredCell] = useState<Rect | null>(null);
   const [hoveredSegment, setHoveredSegment] = useState<EraserHover | null>(null);
+  const [draftLine, setDraftLine] = useState<DraftLine | null>(null);
   
   const [isDragging, setIsDragging] = useState(false);
-  const [isGesturing, setIsGesturing] = useState(false); // Track multi-touch gesture status
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false); // Space + drag pans instead of selecting
+  const [isPanning, setIsPanning] = useState(false);
+  const [isGesturing, setIsGesturing] = useState(false); // Two-finger pinch/pan, which skips the zoom transition
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
 
   // Logic Refs
   const gridSnapshotRef = useRef<Grid | null>(null);
+  const pixelsRef = useRef<PixelBuffer | null>(null); // Decoded current image, for edge snapping
+  const lineDragRef = useRef<LineDrag | null>(null); // Active move-tool drag
+  const selectionDragRef = useRef<SelectionDrag | null>(null); // Active selection move/resize
+  const bandDragRef = useRef<BandDrag | null>(null); // Active whole-row/column selection
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Touch: hold a cell to select its column
+  const panDragRef = useRef<{ start: Point, startPan: Point } | null>(null); // Space/middle-button drag
   const containerRef = useRef<HTMLDivElement>(null);
+  const historyRef = useRef(history); // Latest history, for async results that outlive a render
+  const deskewJobRef = useRef<DeskewJob | null>(null); // Straighten in progress, so it can be cancelled
+  const viewRef = useRef({ scale, pan }); // Latest zoom/pan, advanced by each wheel event before React re-renders
   
   // Gesture Refs
   const gestureRef = useRef({
@@ -53,6 +106,8 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
 
   // --- Init ---
   useEffect(() => {
+    let active = true;
+    let deskewJob: DeskewJob | null = null;
     const img = new Image();
     img.src = initialImage;
     img.onload = () => {
@@ -64,34 +119,182 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
       setHistory([initialItem]);
       setHistoryIndex(0);
       setSelections([]);
+      setGapProposals([]);
       setGrid(null);
       setIsEditingGrid(false);
+      setDeskewAngle(null);
       handleFitScreen(img.width, img.height);
+
+      // The straightened image becomes the second step, so undo returns to the original
+      setIsDeskewing(autoDeskew); // Also clears a straighten of the previous image that was cut short
+      if (!autoDeskew) return;
+      setDeskewProgress(0);
+      deskewJob = processDeskew(initialItem, setDeskewProgress);
+      deskewJobRef.current = deskewJob;
+      deskewJob.promise
+          .then(res => {
+              // Dropped once the user has added steps of their own (even if they undid back to the original)
+              if (!active || !res || res.angle === 0 || historyRef.current.length !== 1) return;
+              const { angle, ...item } = res;
+              setHistory(prev => [...prev, item]);
+              setHistoryIndex(1);
+              setSelections([]);
+              setGapProposals([]);
+              setDeskewAngle(angle);
+          })
+          .catch(err => { if ((err as Error).name !== 'AbortError') reportError(err); })
+          .finally(() => {
+              if (!active) return;
+              deskewJobRef.current = null;
+              setIsDeskewing(false);
+          });
     };
     const timer = setTimeout(() => setShowToast(false), 5000);
-    return () => clearTimeout(timer);
+    return () => {
+        active = false;
+        deskewJob?.cancel(); // A new image replaces the one being straightened
+        clearTimeout(timer);
+    };
   }, [initialImage]);
 
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  useEffect(() => {
+    saveAutoDeskew(autoDeskew);
+  }, [autoDeskew]);
+
+  useEffect(() => {
+    if (!errorMessage) return;
+    const timer = setTimeout(() => setErrorMessage(null), 6000);
+    return () => clearTimeout(timer);
+  }, [errorMessage]);
+
   // --- Grid Management ---
+  // Held back while straightening, so the grid is detected on the rotated result rather than the original
   useEffect(() => {
+    if (isDeskewing) return;
     if (historyIndex >= 0 && history[historyIndex]) {
         const item = history[historyIndex];
-        if (item.grid) {
+        // Only the step that was shown when the settings changed; dropped once the user moves on
+        const forceRescan = item === rescanItem;
+
+        if (item.grid && !forceRescan) {
             setGrid(item.grid);
             setIsScanning(false);
         } else {
-            setGrid(null); 
+            if (!item.grid) setGrid(null);
             setIsScanning(true);
-            // Delay grid detection to allow render
-            setTimeout(() => {
-                detectGrid(item, (newGrid) => {
+            setScanProgress(0);
+            // Runs off the main thread; cancelled when the user undoes/redoes or loads another image
+            const job = detectGrid(item, detectionSettings, setScanProgress);
+            job.promise.then((newGrid) => {
+                setIsScanning(false);
+                if (forceRescan) setRescanItem(null);
+                // A re-scan of a step with a stored grid becomes a new step, so undo restores the old grid
+                if (item.grid && JSON.stringify(item.grid) !== JSON.stringify(newGrid)) {
+                    pushHistory({ ...item, grid: newGrid });
+                } else {
                     setGrid(newGrid);
-                    setIsScanning(false);
-                });
-            }, 100);
+                }
+            }).catch((err) => {
+                if ((err as Error).name === 'AbortError') return;
+                reportError(err);
+                setIsScanning(false);
+            });
+            return () => job.cancel();
+        }
+    }
+  }, [historyIndex, history, rescanItem, isDeskewing]);
+
+  // Hover and click hit-testing go through this; the flood fill reruns only when the grid or image changes
+  const itemWidth = history[historyIndex]?.width ?? 0;
+  const itemHeight = history[historyIndex]?.height ?? 0;
+  const cellIndex = useMemo(
+      () => grid ? createCellIndex(grid, itemWidth, itemHeight) : null,
+      [grid, itemWidth, itemHeight]
+  );
+
+  // Remember sensitivity for the session and re-scan live (debounced) when it changes.
+  // Compared against the stored copy, so mounting (twice under StrictMode) never re-scans.
+  useEffect(() => {
+    if (JSON.stringify(detectionSettings) === JSON.stringify(loadDetectionSettings())) return;
+    saveDetectionSettings(detectionSettings);
+    const item = history[historyIndex] ?? null;
+    const timer = setTimeout(() => setRescanItem(item), 300);
+    return () => clearTimeout(timer);
+  }, [detectionSettings]);
+
+  // Forget the active selection once it no longer exists (cleared, cropped, undone...)
+  useEffect(() => {
+    if (activeSelection !== null && activeSelection >= selections.length) setActiveSelection(null);
+  }, [selections, activeSelection]);
+
+  // Arrow keys nudge the active selection by 1px (10px with Shift); Delete removes it
+  useEffect(() => {
+    const item = history[historyIndex];
+    if (activeSelection === null || !item || isEditingGrid) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+        const step = e.shiftKey ? 10 : 1;
+        const delta: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step]
+        };
+        if (delta[e.key]) {
+            e.preventDefault();
+            const [dx, dy] = delta[e.key];
+            setSelections(prev => prev.map((s, i) => i === activeSelection ? nudgeRect(s, dx, dy, item.width, item.height) : s));
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            setSelections(prev => prev.filter((_, i) => i !== activeSelection));
+            setActiveSelection(null);
+        } else if (e.key === 'Escape') {
+            setActiveSelection(null);
         }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [activeSelection, history, historyIndex, isEditingGrid]);
+
+  // Render the crop preview off the latest selections, settling for 300ms first
+  useEffect(() => {
+    const item = history[historyIndex];
+    if (!isPreviewing || !item || selections.length === 0 || isEditingGrid) {
+        setPreview(null);
+        setIsRenderingPreview(false);
+        return;
     }
-  }, [historyIndex, history]);
+
+    let active = true;
+    setIsRenderingPreview(true);
+    const timer = setTimeout(() => {
+        previewImageCrop(item, selections, grid, previewMode, smartMode, smartStrategy, resampleFilter, redrawBorders)
+            .then(res => { if (active) setPreview(res); })
+            .catch(reportError)
+            .finally(() => { if (active) setIsRenderingPreview(false); });
+    }, 300);
+    return () => {
+        active = false;
+        clearTimeout(timer);
+    };
+  }, [isPreviewing, history, historyIndex, selections, grid, isEditingGrid, previewMode, smartMode, smartStrategy, resampleFilter, redrawBorders]);
+
+  // Decode pixels only while the draw tool needs them for edge snapping
+  useEffect(() => {
+    pixelsRef.current = null;
+    const item = history[historyIndex];
+    if (!item || !isEditingGrid || gridTool !== 'draw' || !snapToEdges) return;
+
+    let active = true;
+    loadPixelBuffer(item.dataUrl, item.width, item.height)
+        .then(pixels => { if (active) pixelsRef.current = pixels; })
+        .catch(err => console.warn('Edge snapping unavailable:', err));
+    return () => { active = false; };
+  }, [history, historyIndex, isEditingGrid, gridTool, snapToEdges]);
 
   const handleFitScreen = useCallback((imgW?: number, imgH?: number) => {
     if (containerRef.current) {
@@ -142,14 +345,12 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
     };
   };
 
-  const getCellAt = (x: number, y: number): Rect | null => {
-    if (!grid) return null;
-    const item = history[historyIndex];
-    const cells = getActualCells(grid, item.width, item.height);
-    return cells.find(c => x >= c.x && x <= c.x + c.w && y >= c.y && y <= c.y + c.h) || null;
-  };
+  const getCellAt = (x: number, y: number): Rect | null => cellIndex ? cellIndex.cellAt(x, y) : null;
+
+  const canMoveSelection = (e: React.MouseEvent | React.TouchEvent) =>
+    (index: number) => index === activeSelection || e.ctrlKey || e.metaKey;
 
-  const toggleSelection = (cell: Rect) => {
+  const toggleSelection = (cell: CropSelection) => {
     const existsIndex = selections.findIndex(s => 
         Math.abs(s.x - cell.x) < 1 && 
         Math.abs(s.y - cell.y) < 1 && 
@@ -161,16 +362,36 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
         setSelections(prev => prev.filter((_, i) => i !== existsIndex));
     } else {
         setSelections(prev => [...prev, cell]);
+        setActiveSelection(selections.length);
     }
   };
 
+  const startBandDrag = (axis: BandDrag['axis'], cell: Rect) => {
+    const item = history[historyIndex];
+    bandDragRef.current = { axis, anchor: cell };
+    setIsDragging(true);
+    setCurrentDrag(getBandRect(bandDragRef.current, null, item.width, item.height));
+  };
+
+  const getInsertPointerPosition = (coords: { x: number; y: number }) => {
+    const item = history[historyIndex];
+    const isRow = insertSettings.axis === 'horizontal';
+    return getInsertPosition(grid, insertSettings.axis, isRow ? coords.y : coords.x, isRow ? item.height : item.width, scale);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current);
+    longPressRef.current = null;
+  };
+
   // --- Interaction Handlers ---
   const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
     // Multi-touch Gesture Start
     if ('touches' in e && e.touches.length === 2) {
        e.preventDefault();
+       cancelLongPress();
        gestureRef.current.isGesturing = true;
-       setIsGesturing(true); // Trigger re-render to disable transition
+       setIsGesturing(true);
        
        const t1 = e.touches[0];
        const t2 = e.touches[1];
@@ -198,13 +419,76 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
     }
 
     e.stopPropagation();
+
+    // Middle button, or any button with Space held, drags the view around
+    if (!('touches' in e) && (e.button === 1 || isSpaceHeld)) {
+        e.preventDefault(); // No middle-click autoscroll
+        cancelLongPress();
+        panDragRef.current = { start: { x: e.clientX, y: e.clientY }, startPan: pan };
+        setIsPanning(true);
+        return;
+    }
+
     const coords = getPointerCoords(e);
 
-    const useLineEraser = eraserMode === 'line' || e.altKey || (e as React.MouseEvent).metaKey;
+    if (!isEditingGrid && gapProposals.length > 0) {
+        const hit = findProposalAt(gapProposals, coords.x, coords.y);
+        if (hit >= 0) {
+            setGapProposals(prev => prev.map((p, i) => i === hit ? { ...p, selected: !p.selected } : p));
+            return;
+        }
+    }
+
+    const useLineEraser = gridTool === 'line' || e.altKey || (e as React.MouseEvent).metaKey;
+
+    // Insert-space mode: a click adds space at the pointer (or just past the line under it)
+    if (isInserting && !isEditingGrid) {
+        handleInsertSpace(getInsertPointerPosition(coords));
+        return;
+    }
+
+    // Reorder mode: grab the cell's row or column; which one is decided once the pointer moves
+    if (isReordering && !isEditingGrid && grid) {
+        const cell = getCellAt(coords.x, coords.y);
+        if (cell) {
+            setReorderDrag({ axis: null, origin: coords, anchor: cell, target: null });
+            setIsDragging(true);
+        }
+        return;
+    }
+
+    // Shift = whole row, Alt = whole column; dragging on to another row/column selects the range
+    if (!isEditingGrid && grid && (e.shiftKey || e.altKey)) {
+        const cell = getCellAt(coords.x, coords.y);
+        if (cell) {
+            startBandDrag(e.altKey ? 'vertical' : 'horizontal', cell);
+            return;
+        }
+    }
+
+    // Grab an existing selection by a handle (bigger hit area for fingers), or by its body
+    // when it is the active one or Ctrl/Cmd is held
+    if (!isEditingGrid) {
+        const hit = findSelectionHandle(selections, coords, scale, 'touches' in e ? 16 : 6, canMoveSelection(e));
+        if (hit) {
+            selectionDragRef.current = beginSelectionDrag(selections, hit.index, hit.handle, coords);
+            setIsDragging(true);
+            return;
+        }
+    }
 
     if (isEditingGrid && grid) {
         setIsDragging(true);
         gridSnapshotRef.current = JSON.parse(JSON.stringify(grid));
+        if (gridTool === 'draw') {
+            setDragStart(coords);
+            setDraftLine(null);
+            return;
+        }
+        if (gridTool === 'move') {
+            lineDragRef.current = beginLineDrag(grid, coords, scale);
+            return;
+        }
         const newGrid = performErase(grid, coords, useLineEraser, scale);
         if (newGrid) setGrid(newGrid);
         return;
@@ -213,6 +497,17 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
     setDragStart(coords);
     setIsDragging(true);
     setCurrentDrag({ x: coords.x, y: coords.y, w: 0, h: 0 });
+
+    // Touch has no modifier keys: holding still on a cell switches to column selection
+    const cell = 'touches' in e ? getCellAt(coords.x, coords.y) : null;
+    if (cell) {
+        cancelLongPress();
+        longPressRef.current = setTimeout(() => {
+            longPressRef.current = null;
+            setDragStart(null);
+            startBandDrag('vertical', cell);
+        }, 500);
+    }
   };
 
   const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
@@ -224,28 +519,51 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
         
         // 1. Calculate New Zoom
         const dist = Math.hypot(t1.clientX - t2.clientX, t1.clientY - t2.clientY);
-        const newScale = Math.max(0.1, Math.min(5, gestureRef.current.startScale * (dist / gestureRef.current.startDist)));
+        const newScale = clampScale(gestureRef.current.startScale * (dist / gestureRef.current.startDist));
+
+        // 2. Calculate Pan to keep focal point stable (under the moving finger midpoint)
+        const { containerCenter, startCenter, startPan, startScale } = gestureRef.current;
+        const center = { x: (t1.clientX + t2.clientX) / 2, y: (t1.clientY + t2.clientY) / 2 };
 
-        // 2. Calculate Pan to keep focal point stable
-        const cx = (t1.clientX + t2.clientX) / 2;
-        const cy = (t1.clientY + t2.clientY) / 2;
-        
-        const C = gestureRef.current.containerCenter;
-        const F_start = gestureRef.current.startCenter;
-        const Pan_start = gestureRef.current.startPan;
-        const Scale_start = gestureRef.current.startScale;
-        
-        const scaleRatio = newScale / Scale_start;
-        const newPanX = cx - C.x - (F_start.x - C.x - Pan_start.x) * scaleRatio;
-        const newPanY = cy - C.y - (F_start.y - C.y - Pan_start.y) * scaleRatio;
-        
         setScale(newScale);
-        setPan({ x: newPanX, y: newPanY });
+        setPan(getFocalPan(containerCenter, startCenter, startPan, startScale, newScale, center));
+        return;
+    }
+
+    const panDrag = panDragRef.current;
+    if (panDrag && !('touches' in e)) {
+        setPan({
+            x: panDrag.startPan.x + e.clientX - panDrag.start.x,
+            y: panDrag.startPan.y + e.clientY - panDrag.start.y
+        });
         return;
     }
 
     const coords = getPointerCoords(e);
-    const useLineEraser = eraserMode === 'line' || e.altKey || (e as React.MouseEvent).metaKey;
+    const useLineEraser = gridTool === 'line' || e.altKey || (e as React.MouseEvent).metaKey;
+
+    if (isEditingGrid && gridTool === 'draw') {
+        if (isDragging && grid && dragStart) {
+            const item = history[historyIndex];
+            setDraftLine(createDraftLine(dragStart, coords, grid, item.width, item.height, scale, pixelsRef.current));
+        }
+        setHoveredSegment(null);
+        setHoveredCell(null);
+        return;
+    }
+
+    if (isEditingGrid && gridTool === 'move' && grid) {
+        const drag = lineDragRef.current;
+        if (isDragging && drag) {
+            const item = history[historyIndex];
+            setGrid(applyLineDrag(grid, drag, coords, item.width, item.height));
+            setHoveredSegment({ type: drag.type, lineIndex: drag.lineIndex, start: 0, end: 0, isWholeLine: true });
+        } else if (!isDragging) {
+            setHoveredSegment(findHoveredSegment(grid, coords, scale, true));
+        }
+        setHoveredCell(null);
+        return;
+    }
 
     if (isEditingGrid && isDragging && grid) {
         const newGrid = performErase(grid, coords, useLineEraser, scale);
@@ -254,41 +572,65 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
     }
 
     if (isEditingGrid && grid) {
-        const threshold = 6 / scale;
-        let bestSeg: EraserHover | null = null;
-        let minDest = threshold;
-        const isWholeLine = useLineEraser;
-
-        const check = (type: 'horizontal'|'vertical') => {
-            const lines = type === 'horizontal' ? grid.horizontal : grid.vertical;
-            const perps = type === 'horizontal' ? grid.vertical : grid.horizontal;
-            const main = type === 'horizontal' ? coords.y : coords.x;
-            const cross = type === 'horizontal' ? coords.x : coords.y;
-
-            lines.forEach((l, i) => {
-                if (cross < l.start || cross > l.end) return;
-                const dist = Math.abs(main - l.pos);
-                if (dist < minDest) {
-                    let s = l.start, e = l.end;
-                    const crossings = perps.filter(p => p.start <= l.pos && p.end >= l.pos).map(p=>p.pos).sort((a,b)=>a-b);
-                    for(const p of crossings) {
-                        if(p <= cross) s = Math.max(s, p);
-                        else if(p > cross) { e = Math.min(e, p); break; }
-                    }
-                    minDest = dist;
-                    bestSeg = { type, lineIndex: i, start: s, end: e, isWholeLine };
-                }
-            });
-        }
-        check('horizontal');
-        check('vertical');
-        setHoveredSegment(bestSeg);
+        setHoveredSegment(findHoveredSegment(grid, coords, scale, useLineEraser));
         setHoveredCell(null);
         return;
     } else {
         setHoveredSegment(null);
     }
 
+    if (longPressRef.current && dragStart && Math.hypot(coords.x - dragStart.x, coords.y - dragStart.y) * scale > 8) {
+        cancelLongPress();
+    }
+
+    if (isInserting) {
+        setInsertAt(getInsertPointerPosition(coords));
+        setHoveredCell(null);
+        return;
+    }
+
+    if (reorderDrag && grid) {
+        const item = history[historyIndex];
+        const dx = coords.x - reorderDrag.origin.x;
+        const dy = coords.y - reorderDrag.origin.y;
+        const axis = reorderDrag.axis ?? (Math.hypot(dx, dy) * scale > 8 ? (Math.abs(dy) >= Math.abs(dx) ? 'horizontal' : 'vertical') : null);
+        const band = axis && getReorderBand({ ...reorderDrag, axis });
+        if (axis && band) {
+            const isRow = axis === 'horizontal';
+            const targets = getReorderTargets(grid, axis, isRow ? item.height : item.width);
+            setReorderDrag({ ...reorderDrag, axis, target: findReorderTarget(targets, band, isRow ? coords.y : coords.x) });
+        }
+        setHoveredCell(null);
+        return;
+    }
+
+    const bandDrag = bandDragRef.current;
+    if (bandDrag) {
+        const item = history[historyIndex];
+        setCurrentDrag(getBandRect(bandDrag, getCellAt(coords.x, coords.y), item.width, item.height));
+        setHoveredCell(null);
+        return;
+    }
+
+    const selectionDrag = selectionDragRef.current;
+    if (selectionDrag) {
+        // Ignore jitter so a still tap stays a click
+        if (!selectionDrag.moved && Math.hypot(coords.x - selectionDrag.origin.x, coords.y - selectionDrag.origin.y) * scale > 3) {
+            selectionDrag.moved = true;
+        }
+        if (isDragging && selectionDrag.moved) {
+            const item = history[historyIndex];
+            const next = applySelectionDrag(selectionDrag, coords, item.width, item.height);
+            setSelections(prev => prev.map((s, i) => i === selectionDrag.index ? { ...s, ...next } : s));
+        }
+        setHoveredCell(null);
+        return;
+    }
+
+    if (!isDragging) {
+        setHoveredHandle(findSelectionHandle(selections, coords, scale, 6, canMoveSelection(e))?.handle ?? null);
+    }
+
     if (!isDragging && grid) {
         setHoveredCell(getCellAt(coords.x, coords.y));
     } else {
@@ -312,23 +654,67 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
             setIsGesturing(false);
         }
     }
+
+    if (panDragRef.current) {
+        panDragRef.current = null;
+        setIsPanning(false);
+        return;
+    }
     
     setIsDragging(false);
     
     if (isEditingGrid) {
-        if (grid && gridSnapshotRef.current) {
+        let nextGrid = grid;
+        if (gridTool === 'draw' && grid && draftLine) {
+            nextGrid = addGridLine(grid, draftLine);
+            setGrid(nextGrid);
+        } else if (gridTool === 'move' && grid && lineDragRef.current) {
+            nextGrid = sortGridLines(grid);
+            setGrid(nextGrid);
+        }
+        if (nextGrid && gridSnapshotRef.current) {
             const prevStr = JSON.stringify(gridSnapshotRef.current);
-            const currStr = JSON.stringify(grid);
+            const currStr = JSON.stringify(nextGrid);
             if (prevStr !== currStr) {
-                const newItem = { ...history[historyIndex], grid: grid };
-                const newHist = history.slice(0, historyIndex + 1);
-                newHist.push(newItem);
-                setHistory(newHist);
-                setHistoryIndex(newHist.length - 1);
+                pushHistory({ ...history[historyIndex], grid: nextGrid });
             }
         }
         gridSnapshotRef.current = null;
+        lineDragRef.current = null;
         setHoveredSegment(null); 
+        setDraftLine(null);
+        setDragStart(null);
+        return;
+    }
+
+    cancelLongPress();
+    if (reorderDrag) {
+        setReorderDrag(null);
+        const band = getReorderBand(reorderDrag);
+        if (reorderDrag.axis && band && reorderDrag.target !== null) handleReorder(reorderDrag.axis, band, reorderDrag.target);
+        return;
+    }
+
+    if (bandDragRef.current) {
+        const { axis } = bandDragRef.current;
+        bandDragRef.current = null;
+        // Same toggle as a cell click: selecting an identical band again removes it.
+        // Bands are tagged with their axis so any crop action removes only that direction.
+        if (currentDrag) toggleSelection({ ...currentDrag, axis });
+        setCurrentDrag(null);
+        return;
+    }
+
+    const selectionDrag = selectionDragRef.current;
+    if (selectionDrag) {
+        selectionDragRef.current = null;
+        // A still click activates a selection; clicking the active one again removes it
+        if (!selectionDrag.moved && activeSelection === selectionDrag.index) {
+            setSelections(prev => prev.filter((_, i) => i !== selectionDrag.index));
+            setActiveSelection(null);
+        } else {
+            setActiveSelection(selectionDrag.index);
+        }
         return;
     }
 
@@ -340,40 +726,222 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
             let { x, y, w, h } = currentDrag;
             if (w < 0) { x += w; w = Math.abs(w); }
             if (h < 0) { y += h; h = Math.abs(h); }
-            if (w > 2 && h > 2) setSelections(prev => [...prev, { x, y, w, h }]);
+            if (w > 2 && h > 2) {
+                setSelections(prev => [...prev, { x, y, w, h }]);
+                setActiveSelection(selections.length);
+            }
         }
     }
     setCurrentDrag(null);
   };
   
-  const handleWheel = (e: React.WheelEvent) => {
-      // Allow trackpad pinch-zoom or mouse wheel zoom
-      if (e.ctrlKey) {
-          e.preventDefault();
-          const zoomFactor = -e.deltaY * 0.01;
-          const newScale = Math.max(0.1, Math.min(5, scale + zoomFactor));
-          setScale(newScale);
-      } else {
-          // Pan on normal scroll if desired, or just ignore
+  // Zoom/pan changed by anything else (buttons, fit, pinch) becomes the wheel's new starting point.
+  // A layout effect, so it lands before the next wheel event can read it.
+  useLayoutEffect(() => {
+    viewRef.current = { scale, pan };
+  }, [scale, pan]);
+
+  // Scroll / two-finger trackpad swipe pans; Ctrl+wheel (and trackpad pinch, which browsers
+  // report as Ctrl+wheel) zooms around the pointer with the same focal math as touch pinch.
+  // Attached natively because React's wheel listener is passive and cannot stop page zoom.
+  // Trackpads fire several events per frame, so each one builds on viewRef rather than on
+  // the state of the last render.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        const rect = el.getBoundingClientRect();
+        const delta = getWheelDelta(e, rect.height);
+        const { scale: startScale, pan: startPan } = viewRef.current;
+        let next: { scale: number, pan: Point };
+        if (e.ctrlKey) {
+            const newScale = clampScale(startScale * getWheelZoomFactor(delta.y));
+            const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+            next = { scale: newScale, pan: getFocalPan(center, { x: e.clientX, y: e.clientY }, startPan, startScale, newScale) };
+        } else {
+            next = { scale: startScale, pan: { x: startPan.x - delta.x, y: startPan.y - delta.y } };
+        }
+        viewRef.current = next;
+        setScale(next.scale);
+        setPan(next.pan);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Holding Space turns the pointer into a hand for dragging the view. Only claimed when nothing
+  // else has focus (or the canvas area does), so Space still presses focused buttons and controls.
+  useEffect(() => {
+    const claimsSpace = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target === document.body) return true;
+        if (!containerRef.current?.contains(target)) return false;
+        return !target.isContentEditable && !['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.code !== 'Space' || !claimsSpace(e)) return;
+        e.preventDefault(); // Don't scroll the page
+        setIsSpaceHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+        if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const onBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+        window.removeEventListener('keydown', onKeyDown);
+        window.removeEventListener('keyup', onKeyUp);
+        window.removeEventListener('blur', onBlur);
+    };
+  }, []);
+
+  // --- Actions ---
+  // Limits the user can act on (a smaller image) get a message; anything else is only logged
+  const reportError = (err: unknown) => {
+      console.warn('Image processing failed:', err);
+      if (err instanceof ImageTooLargeError) {
+          setErrorMessage(`图片过大（${err.width}×${err.height}），超出可处理的像素上限，请先裁小或分段处理`);
       }
   };
 
-  // --- Actions ---
+  const pushHistory = (item: HistoryItem) => {
+      const newHistory = history.slice(0, historyIndex + 1);
+      newHistory.push(item);
+      setHistory(newHistory);
+      setHistoryIndex(newHistory.length - 1);
+  };
+
   const handleCrop = async (mode: CropMode) => {
       if (selections.length === 0 || historyIndex < 0) return;
       
       // Use the external processor
-      const res = await processImageCrop(history[historyIndex], selections, grid, mode, smartMode);
+      const res = await processImageCrop(history[historyIndex], selections, grid, mode, smartMode, smartStrategy, resampleFilter, redrawBorders).catch(reportError);
       
       if (res) {
-          const newHistory = history.slice(0, historyIndex + 1);
-          newHistory.push(res);
-          setHistory(newHistory);
-          setHistoryIndex(newHistory.length - 1);
+          pushHistory(res);
+          setSelections([]);
+          setGapProposals([]);
+      }
+  };
+
+  // Delete one selection within its own column/row; the other selections stay where they are
+  const handleShiftDelete = async (index: number, direction: ShiftDirection) => {
+      const selection = selections[index];
+      if (!selection || historyIndex < 0) return;
+
+      const res = await processShiftDelete(history[historyIndex], normalizeRect(selection), direction, grid).catch(reportError);
+      if (res) {
+          pushHistory(res);
+          setSelections(prev => prev.filter((_, i) => i !== index));
+          setActiveSelection(null);
+      }
+  };
+
+  // Dropping a band back on its own edge is a no-op, so it never adds a history step
+  const handleReorder = async (axis: 'horizontal' | 'vertical', band: Range, target: number) => {
+      if (target === band.start || target === band.end || historyIndex < 0) return;
+
+      const res = await processReorder(history[historyIndex], axis, band, target, grid).catch(reportError);
+      if (res) {
+          pushHistory(res);
+          setSelections([]);
+          setGapProposals([]);
+      }
+  };
+
+  const handleDeskew = async () => {
+      if (historyIndex < 0) return;
+      setIsDeskewing(true);
+      setDeskewProgress(0);
+      const job = processDeskew(history[historyIndex], setDeskewProgress);
+      deskewJobRef.current = job;
+      try {
+          const res = await job.promise.catch(err => { if ((err as Error).name !== 'AbortError') reportError(err); });
+          if (res === undefined) return; // Cancelled, or failed and already reported
+          if (!res) {
+              setErrorMessage('无法读取图片，未能校正倾斜');
+              return;
+          }
+          if (res.angle === 0) {
+              setDeskewAngle(0); // Already level: nothing added to history
+              return;
+          }
+          const { angle, ...item } = res;
+          setDeskewAngle(angle);
+          pushHistory(item);
+          setSelections([]);
+          setGapProposals([]);
+      } finally {
+          if (deskewJobRef.current === job) deskewJobRef.current = null;
+          setIsDeskewing(false);
+      }
+  };
+
+  const handleCancelDeskew = () => deskewJobRef.current?.cancel();
+
+  // Same selections as cropping, but hidden in place so the layout is kept
+  const handleRedact = async () => {
+      if (selections.length === 0 || historyIndex < 0) return;
+
+      const res = await processRedact(history[historyIndex], selections, redactSettings, grid).catch(reportError);
+      if (res) {
+          pushHistory(res);
           setSelections([]);
       }
   };
 
+  const handleInsertSpace = async (pos: number) => {
+      if (historyIndex < 0) return;
+
+      const res = await processInsertSpace(history[historyIndex], insertSettings, pos, grid).catch(reportError);
+      if (res) {
+          pushHistory(res);
+          setSelections([]);
+          setGapProposals([]);
+      }
+  };
+
+  // Commit the previewed result as-is rather than recomputing it
+  const handleApplyPreview = () => {
+      if (!preview || isRenderingPreview) return;
+      const { plan, ...result } = preview;
+      pushHistory(result);
+      setSelections([]);
+      setGapProposals([]);
+  };
+
+  const handleFindGaps = async () => {
+      const item = history[historyIndex];
+      if (!item) return;
+      setIsFindingGaps(true);
+      try {
+          const pixels = await loadPixelBuffer(item.dataUrl, item.width, item.height);
+          setGapProposals(findBlankBands(pixels, gapSettings));
+      } catch (err) {
+          reportError(err);
+      } finally {
+          setIsFindingGaps(false);
+      }
+  };
+
+  const handleApplyGaps = async () => {
+      const item = history[historyIndex];
+      if (!item) return;
+      const chosen = proposalsToSelections(gapProposals, item.width, item.height);
+      if (chosen.length === 0) return;
+
+      // Every band carries its own axis, so one pass removes rows and columns together
+      const res = await processImageCrop(history[historyIndex], chosen, grid, 'both', smartMode, smartStrategy, resampleFilter, redrawBorders).catch(reportError);
+      if (res) {
+          pushHistory(res);
+          setGapProposals([]);
+      }
+  };
+
   const handleDownload = async () => {
     if (historyIndex < 0) return;
     const dataUrl = history[historyIndex].dataUrl;
@@ -464,16 +1032,31 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
                 pan={pan}
                 grid={grid}
                 selections={selections}
+                activeSelection={activeSelection}
+                hoveredHandle={hoveredHandle}
                 currentDrag={currentDrag}
                 isScanning={isScanning}
+                scanProgress={scanProgress}
                 isEditingGrid={isEditingGrid}
+                isPanning={isPanning}
                 isGesturing={isGesturing}
+                isSpaceHeld={isSpaceHeld}
                 hoveredCell={hoveredCell}
                 hoveredSegment={hoveredSegment}
+                draftLine={draftLine}
+                gridTool={gridTool}
+                gapProposals={gapProposals}
+                isReordering={isReordering}
+                reorderDrag={reorderDrag}
+                insertAt={isInserting ? insertAt : null}
+                insertSettings={insertSettings}
+                preview={preview}
+                previewView={previewView}
+                previewSplit={previewSplit}
+                onChangePreviewSplit={setPreviewSplit}
                 onPointerDown={handlePointerDown}
                 onPointerMove={handlePointerMove}
                 onPointerUp={handlePointerUp}
-                onWheel={handleWheel}
             />
         )}
         
@@ -485,7 +1068,11 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
             onClearSelection={() => setSelections([])}
             selectionCount={selections.length}
             isEditingGrid={isEditingGrid}
+            gridTool={gridTool}
+            isReordering={isReordering}
+            isInserting={isInserting}
             showToast={showToast}
+            errorMessage={errorMessage}
         />
       </div>
 
@@ -493,15 +1080,69 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({ initialImage }) => {
           historyIndex={historyIndex}
           historyLength={history.length}
           hasSelection={selections.length > 0}
+          selections={selections}
+          activeSelection={activeSelection}
+          onChangeSelection={(index, rect) => {
+              const item = history[historyIndex];
+              if (item) setSelections(prev => prev.map((s, i) => i === index ? clampRect(rect, item.width, item.height) : s));
+          }}
+          onDeleteSelection={(index) => {
+              setSelections(prev => prev.filter((_, i) => i !== index));
+              setActiveSelection(null);
+          }}
+          onShiftDeleteSelection={handleShiftDelete}
           isEditingGrid={isEditingGrid}
+          autoDeskew={autoDeskew}
+          onToggleAutoDeskew={() => setAutoDeskew(!autoDeskew)}
+          isDeskewing={isDeskewing}
+          deskewProgress={deskewProgress}
+          onCancelDeskew={handleCancelDeskew}
+          deskewAngle={deskewAngle}
+          onDeskew={handleDeskew}
+          isReordering={isReordering}
+          onToggleReorder={() => { setIsReordering(!isReordering); setIsInserting(false); setIsEditingGrid(false); }}
+          isInserting={isInserting}
+          onToggleInsert={() => { setIsInserting(!isInserting); setIsReordering(false); setInsertAt(null); }}
+          insertSettings={insertSettings}
+          onChangeInsertSettings={setInsertSettings}
+          redactSettings={redactSettings}
+          onChangeRedactSettings={setRedactSettings}
+          onRedact={handleRedact}
           smartMode={smartMode}
-          eraserMode={eraserMode}
-          setEraserMode={setEraserMode}
+          smartStrategy={smartStrategy}
+          setSmartStrategy={setSmartStrategy}
+          resampleFilter={resampleFilter}
+          setResampleFilter={setResampleFilter}
+          redrawBorders={redrawBorders}
+          onToggleRedrawBorders={() => setRedrawBorders(!redrawBorders)}
+          gridTool={gridTool}
+          setGridTool={setGridTool}
+          snapToEdges={snapToEdges}
+          onToggleSnapToEdges={() => setSnapToEdges(!snapToEdges)}
+          detectionSettings={detectionSettings}
+          onChangeDetectionSettings={setDetectionSettings}
+          gapSettings={gapSettings}
+          onChangeGapSettings={setGapSettings}
+          gapProposals={gapProposals}
+          isFindingGaps={isFindingGaps}
+          onFindGaps={handleFindGaps}
+          onSelectAllGaps={(selected) => setGapProposals(prev => prev.map(p => ({ ...p, selected })))}
+          onApplyGaps={handleApplyGaps}
+          onCancelGaps={() => setGapProposals([])}
+          isPreviewing={isPreviewing}
+          onTogglePreview={() => setIsPreviewing(!isPreviewing)}
+          previewMode={previewMode}
+          onChangePreviewMode={setPreviewMode}
+          previewView={previewView}
+          onChangePreviewView={setPreviewView}
+          isRenderingPreview={isRenderingPreview}
+          hasPreview={preview !== null}
+          onApplyPreview={handleApplyPreview}
           onToggleSmartMode={() => setSmartMode(!smartMode)}
-          onToggleEraser={() => { setIsEditingGrid(!isEditingGrid); setSelections([]); }}
+          onToggleEraser={() => { setIsEditingGrid(!isEditingGrid); setIsReordering(false); setIsInserting(false); setSelections([]); }}
           onCrop={handleCrop}
-          onUndo={() => { setHistoryIndex(i => i - 1); setSelections([]); }}
-          onRedo={() => { setHistoryIndex(i => i + 1); setSelections([]); }}
+          onUndo={() => { setHistoryIndex(i => i - 1); setSelections([]); setGapProposals([]); }}
+          onRedo={() => { setHistoryIndex(i => i + 1); setSelections([]); setGapProposals([]); }}
           onDownload={handleDownload}
       />
     </div>
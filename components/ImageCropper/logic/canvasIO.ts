@@ -0,0 +1,84 @@
+import { PixelBuffer } from '../types';
+import { createPixelBuffer } from './pixelBuffer';
+import { encodePngBlob } from './pngEncoder';
+
+// Browser-only adapters between data URLs and the DOM-free PixelBuffer core.
+//
+// Canvases are capped well below the image sizes this app sees (long screenshots, stitched
+// scans): past a browser's limit getImageData/toDataURL silently yield blank or empty output.
+// Decoding therefore goes through one tile-sized canvas, and oversized results are encoded
+// without a canvas at all. Memory is not bounded beyond that: decoding, the processing steps
+// and grid detection all work on whole-image RGBA buffers (a few per step), so rather than
+// streaming, images are refused past MAX_IMAGE_PIXELS.
+
+// The smallest limits among current browsers (iOS Safari's area, Firefox/Chrome's side)
+export const MAX_CANVAS_SIDE = 16384;
+export const MAX_CANVAS_AREA = 16777216;
+// Beyond this the RGBA buffers a crop needs (~400 MB each) are not worth attempting
+export const MAX_IMAGE_PIXELS = 100_000_000;
+
+export class ImageTooLargeError extends Error {
+  constructor(public width: number, public height: number) {
+    super(`Image ${width}x${height} exceeds the ${MAX_IMAGE_PIXELS} pixel processing limit`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+const fitsCanvas = (width: number, height: number) =>
+  width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE && width * height <= MAX_CANVAS_AREA;
+
+export const loadPixelBuffer = (dataUrl: string, width: number, height: number): Promise<PixelBuffer> => {
+  if (width * height > MAX_IMAGE_PIXELS) return Promise.reject(new ImageTooLargeError(width, height));
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.onload = () => {
+      const tileW = Math.min(width, MAX_CANVAS_SIDE);
+      const tileH = Math.min(height, MAX_CANVAS_SIDE, Math.floor(MAX_CANVAS_AREA / tileW));
+      const canvas = document.createElement('canvas');
+      canvas.width = tileW;
+      canvas.height = tileH;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) { reject(new Error('Canvas 2D context unavailable')); return; }
+
+      const out = createPixelBuffer(width, height);
+      for (let y = 0; y < height; y += tileH) {
+        for (let x = 0; x < width; x += tileW) {
+          const w = Math.min(tileW, width - x);
+          const h = Math.min(tileH, height - y);
+          ctx.clearRect(0, 0, tileW, tileH);
+          ctx.drawImage(img, -x, -y);
+          const { data } = ctx.getImageData(0, 0, w, h);
+          for (let row = 0; row < h; row++) {
+            out.data.set(data.subarray(row * w * 4, (row + 1) * w * 4), ((y + row) * width + x) * 4);
+          }
+        }
+      }
+      resolve(out);
+    };
+    img.src = dataUrl;
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const pixelBufferToDataUrl = async (image: PixelBuffer): Promise<string | null> => {
+  if (!fitsCanvas(image.width, image.height)) return blobToDataUrl(await encodePngBlob(image));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas.toDataURL();
+};
@@ -0,0 +1,888 @@
+import { CropMode, CropSelection, Grid, GridLine, Rect, ResampleFilter, SmartStrategy } from '../../../types';
+import { CropPlanRegion, PixelBuffer } from '../types';
+import { getActualCells, mergeCollinearLines } from './gridManipulation';
+import { createPixelBuffer, clonePixelBuffer, getDominantColor, pasteBuffer } from './pixelBuffer';
+import { resampleBand } from './resample';
+import { carveSeams } from './seamCarving';
+
+// DOM-free crop pipeline: operates on a PixelBuffer and returns a new one plus the remapped Grid.
+// processImageCrop in imageProcessor.ts is the canvas adapter over this module.
+
+export interface Range {
+    start: number;
+    end: number;
+}
+
+export interface PixelCropResult {
+    image: PixelBuffer;
+    grid?: Grid;
+}
+
+// Instruction for the renderer
+export interface DrawOperation {
+    srcStart: number;
+    srcLen: number;
+    destLen: number; // If destLen < srcLen, content is squished (may be fractional; see layoutOperations)
+    carved?: PixelBuffer; // Seam strategy: pre-rendered cell pixels, drawn instead of the source range
+}
+
+// Seam strategy: carved bands per cell, with the kept lines and debt they were carved from
+export type CarveCache = Map<number, { kept: number[], debt: number, band: PixelBuffer }[]>;
+
+// Average energy below which a line is considered free of content
+export const UNSAFE_ENERGY_THRESHOLD = 5.0;
+
+// Calculate "Energy" (contrast/detail) in a specific rectangular region
+// Optimized to return average energy per pixel
+export const getRegionEnergy = (
+    data: Uint8ClampedArray, 
+    width: number, 
+    startX: number, 
+    startY: number, 
+    w: number, 
+    h: number
+) => {
+    let energy = 0;
+    const stride = 2; // Optimization: Skip pixels
+    let pixelsChecked = 0;
+    
+    const height = data.length / 4 / width;
+    // Ensure we don't read past the data array
+    const maxY = Math.min(startY + h, height);
+    const maxX = Math.min(startX + w, width);
+
+    for (let y = Math.max(0, startY); y < maxY; y += stride) {
+        for (let x = Math.max(0, startX); x < maxX; x += stride) {
+            // We compare pixel x with x+1, so x+1 must be valid
+            if (x + 1 >= width) continue;
+
+            pixelsChecked++;
+            const idx = (y * width + x) * 4;
+            // Simple edge detection: |Current - Next|
+            const r1 = data[idx], g1 = data[idx+1], b1 = data[idx+2];
+            const r2 = data[idx+4], g2 = data[idx+5], b2 = data[idx+6];
+            
+            // Removed 'isDark' penalty which was causing flat colored backgrounds 
+            // (common in table rows) to be flagged as high-energy content, 
+            // leading to incorrect squishing instead of cutting.
+            const diff = Math.abs(r1 - r2) + Math.abs(g1 - g2) + Math.abs(b1 - b2);
+            energy += diff;
+        }
+    }
+    return pixelsChecked > 0 ? energy / pixelsChecked : 0;
+};
+
+// getRegionEnergy answered from summed-area tables, so any region costs O(1) once built.
+// getRegionEnergy samples every 2nd pixel from its (clamped) start, so there is one table per
+// sampling phase (x and y parity); sums are exact integers, making results bit-identical.
+// Build one per pixel array and pass it to every strip that reads that array.
+export interface EnergyTable {
+    regionEnergy: (startX: number, startY: number, w: number, h: number) => number;
+}
+
+interface EnergyPhase {
+    cols: number;
+    sums: Uint32Array; // (rows x cols) prefix sums modulo 2^32, row/column 0 all zero
+}
+
+// Largest per-sample energy (|dR| + |dG| + |dB|). Differences of wrapped prefix sums are exact
+// while the region's true total stays below 2^32, which bounds the region a table can answer.
+const MAX_SAMPLE_ENERGY = 255 * 3;
+const MAX_TABLE_SAMPLES = Math.floor(0xffffffff / MAX_SAMPLE_ENERGY);
+
+// Phases are built on the first query that needs them, so a crop without smart cells never pays
+// for them, and one that only queries even offsets builds one phase (a quarter of the image).
+export const getEnergyTable = (data: Uint8ClampedArray, width: number): EnergyTable => {
+    const height = data.length / 4 / width;
+    const phases: (EnergyPhase | null)[] = [null, null, null, null];
+
+    // Phase (px, py) holds the pixels with x % 2 = px and y % 2 = py
+    const buildPhase = (px: number, py: number): EnergyPhase => {
+        const cols = Math.ceil((width - px) / 2) + 1;
+        const rows = Math.ceil((height - py) / 2) + 1;
+        const sums = new Uint32Array(cols * rows);
+        for (let j = 1; j < rows; j++) {
+            const rowStart = ((py + 2 * (j - 1)) * width + px) * 4;
+            const row = j * cols;
+            let rowSum = 0;
+            for (let i = 1; i < cols; i++) {
+                // The last column has no right neighbour and is never sampled
+                if (px + 2 * i - 1 < width) {
+                    const idx = rowStart + (i - 1) * 8;
+                    rowSum = (rowSum + Math.abs(data[idx] - data[idx+4]) + Math.abs(data[idx+1] - data[idx+5]) + Math.abs(data[idx+2] - data[idx+6])) >>> 0;
+                }
+                sums[row + i] = sums[row - cols + i] + rowSum; // Wraps on store
+            }
+        }
+        return { cols, sums };
+    };
+
+    const regionEnergy = (startX: number, startY: number, w: number, h: number) => {
+        const sx = Math.max(0, startX);
+        const sy = Math.max(0, startY);
+        // A fractional start samples between pixels; leave that to the direct scan
+        if (!Number.isInteger(sx) || !Number.isInteger(sy)) return getRegionEnergy(data, width, startX, startY, w, h);
+
+        const nx = Math.max(0, Math.ceil((Math.min(startX + w, width - 1) - sx) / 2));
+        const ny = Math.max(0, Math.ceil((Math.min(startY + h, height) - sy) / 2));
+        if (nx === 0 || ny === 0) return 0;
+        if (nx * ny > MAX_TABLE_SAMPLES) return getRegionEnergy(data, width, startX, startY, w, h);
+
+        const phase = (sy & 1) * 2 + (sx & 1);
+        phases[phase] ??= buildPhase(sx & 1, sy & 1);
+        const { cols, sums } = phases[phase]!;
+        const i0 = sx >> 1, j0 = sy >> 1;
+        const i1 = i0 + nx, j1 = j0 + ny;
+        const total = (sums[j1 * cols + i1] - sums[j0 * cols + i1] - sums[j1 * cols + i0] + sums[j0 * cols + i0]) >>> 0;
+        return total / (nx * ny);
+    };
+
+    return { regionEnergy };
+};
+
+// Steps 0-2 of the quota strategy: decide, per source line of a strip, whether it is
+// physically cut (pixelAction = 1) and how many lines each cell still owes (squish debt).
+export const getStripPlan = (
+    totalSize: number, 
+    removeRanges: Range[], 
+    axisCells: Rect[], 
+    stripStart: number, 
+    stripEnd: number,   
+    energy: EnergyTable,
+    isVerticalCut: boolean,
+    strategy: SmartStrategy = 'squish'
+) => {
+    // 0. Initialize maps
+    // pixelAction: 0 = Keep, 1 = Physical Cut
+    const pixelAction = new Uint8Array(totalSize).fill(0); 
+    const cellSquishDebt = new Map<number, number>(); 
+    const cellCutQuota = new Map<number, number>();
+
+    // Helper: Identify which cells belong to this strip
+    // Pre-calculating this saves performance in the pixel loop
+    const stripCellsIndices = axisCells.map((c, idx) => {
+        if (isVerticalCut) {
+            // Vertical Cut = Removing Rows. Strip is a Column (X range).
+            // Check if cell horizontally overlaps the strip.
+            const inStrip = (c.x < stripEnd) && (c.x + c.w > stripStart);
+            return inStrip ? idx : -1;
+        } else {
+            // Horizontal Cut = Removing Cols. Strip is a Row (Y range).
+            // Check if cell vertically overlaps the strip.
+            const inStrip = (c.y < stripEnd) && (c.y + c.h > stripStart);
+            return inStrip ? idx : -1;
+        }
+    }).filter(i => i !== -1);
+
+    // Which strip cell (first in list order) each line falls in, -1 for gaps
+    const cellAt = new Int32Array(totalSize).fill(-1);
+    stripCellsIndices.forEach(cIdx => {
+        const c = axisCells[cIdx];
+        const cStart = isVerticalCut ? c.y : c.x;
+        const cEnd = isVerticalCut ? c.y + c.h : c.x + c.w;
+        for (let i = Math.max(0, Math.ceil(cStart)); i < Math.min(totalSize, cEnd); i++) {
+            if (cellAt[i] === -1) cellAt[i] = cIdx;
+        }
+    });
+
+    // Helper: Analyze a cell to find which lines are safe (and how busy every line is)
+    const analyzeCellSafety = (cell: Rect) => {
+        const safeLines: number[] = [];
+        const lineEnergies: {pos: number, energy: number}[] = [];
+        const mainStart = isVerticalCut ? cell.y : cell.x;
+        const mainDim = isVerticalCut ? cell.h : cell.w;
+        const blockSize = 2; 
+
+        // CRITICAL FIX: Restrict the energy check to the intersection of the cell and the strip.
+        // Even if the cell is very wide (or tall), we only care if the *current strip* contains content.
+        // This prevents content in Column A from preventing cuts in empty Column B for the same Row.
+        const crossStart = isVerticalCut ? cell.x : cell.y;
+        const crossDim = isVerticalCut ? cell.w : cell.h;
+        
+        const checkStart = Math.max(crossStart, stripStart);
+        const checkEnd = Math.min(crossStart + crossDim, stripEnd);
+        const checkDim = Math.max(1, checkEnd - checkStart);
+
+        for(let i = 0; i < mainDim; i += blockSize) {
+            const currentPos = mainStart + i;
+            if (currentPos >= totalSize) break;
+
+            const size = Math.min(blockSize, mainDim - i);
+            
+            // Use the intersected bounds for energy check
+            const lineEnergy = isVerticalCut 
+                ? energy.regionEnergy(checkStart, currentPos, checkDim, size)
+                : energy.regionEnergy(currentPos, checkStart, size, checkDim);
+            
+            for(let k=0; k<size; k++) lineEnergies.push({ pos: currentPos + k, energy: lineEnergy });
+            if (lineEnergy < UNSAFE_ENERGY_THRESHOLD) {
+                for(let k=0; k<size; k++) safeLines.push(currentPos + k);
+            }
+        }
+        return { safeLines, lineEnergies };
+    };
+
+    // 1. Distribute Cuts: Gap vs Cell Quota
+    removeRanges.forEach(range => {
+        for (let i = range.start; i < range.end; i++) {
+            if (i < 0 || i >= totalSize) continue;
+
+            // Check if pixel 'i' falls into any cell in this strip
+            const inCellIdx = cellAt[i];
+
+            if (inCellIdx !== -1) {
+                // Pixel is in a cell -> Add to that cell's cut quota
+                const q = cellCutQuota.get(inCellIdx) || 0;
+                cellCutQuota.set(inCellIdx, q + 1);
+            } else {
+                // Pixel is in a gap -> Mark for immediate physical removal
+                pixelAction[i] = 1;
+            }
+        }
+    });
+
+    // 2. Satisfy Cell Quotas (Safe Lines First -> Then Squish)
+    stripCellsIndices.forEach(cellIdx => {
+        const quota = cellCutQuota.get(cellIdx) || 0;
+        if (quota === 0) return;
+
+        const cell = axisCells[cellIdx];
+        
+        // Find safe lines in this cell (within the current strip context)
+        const { safeLines, lineEnergies } = analyzeCellSafety(cell);
+        
+        // Only use safe lines that aren't already marked for cutting
+        const availableSafeLines = safeLines.filter(pos => pixelAction[pos] === 0);
+
+        // Group into contiguous blocks to prioritize larger whitespace chunks
+        const blocks: {start: number, end: number, len: number}[] = [];
+        if (availableSafeLines.length > 0) {
+            let currBlock = { start: availableSafeLines[0], end: availableSafeLines[0] + 1, len: 1 };
+            for(let k=1; k<availableSafeLines.length; k++) {
+                if (availableSafeLines[k] === currBlock.end) {
+                    currBlock.end++;
+                    currBlock.len++;
+                } else {
+                    blocks.push(currBlock);
+                    currBlock = { start: availableSafeLines[k], end: availableSafeLines[k] + 1, len: 1 };
+                }
+            }
+            blocks.push(currBlock);
+        }
+        
+        // Sort blocks by length (largest first)
+        blocks.sort((a,b) => b.len - a.len);
+
+        let remainingQuota = quota;
+
+        // Consume safe lines to satisfy quota
+        for (const block of blocks) {
+            if (remainingQuota <= 0) break;
+            const cutSize = Math.min(remainingQuota, block.len);
+            
+            for(let p = block.start; p < block.start + cutSize; p++) {
+                pixelAction[p] = 1;
+            }
+            remainingQuota -= cutSize;
+        }
+
+        // Cut-only strategy: take the remainder from the least busy lines, never distort
+        if (remainingQuota > 0 && strategy === 'cut') {
+            const candidates = lineEnergies
+                .filter(l => l.pos < totalSize && pixelAction[l.pos] === 0)
+                .sort((a, b) => a.energy - b.energy || a.pos - b.pos);
+            for (const l of candidates) {
+                if (remainingQuota <= 0) break;
+                pixelAction[l.pos] = 1;
+                remainingQuota--;
+            }
+        }
+
+        // If quota remains, it becomes debt (squish or seam carve)
+        if (remainingQuota > 0) {
+            const currentDebt = cellSquishDebt.get(cellIdx) || 0;
+            cellSquishDebt.set(cellIdx, currentDebt + remainingQuota);
+        }
+    });
+
+    return { pixelAction, cellSquishDebt, stripCellsIndices };
+};
+
+// --- NEW CORE LOGIC: Quota-Based Mixed Strategy ---
+export const getStripOperations = (
+    totalSize: number, 
+    removeRanges: Range[], 
+    axisCells: Rect[], 
+    stripStart: number, 
+    stripEnd: number,   
+    smartMode: boolean,
+    imgData: Uint8ClampedArray | null,
+    imgW: number,
+    imgH: number,
+    isVerticalCut: boolean,
+    strategy: SmartStrategy = 'squish',
+    carveCache: CarveCache = new Map(), // Shared by the strips of one pass
+    energy?: EnergyTable // Likewise; built here when not given
+): DrawOperation[] => {
+    
+    // Fallback: Simple physical cut
+    const createStandardCuts = () => {
+        const keep = invertRanges(totalSize, removeRanges);
+        return keep.map(k => ({ srcStart: k.start, srcLen: k.end - k.start, destLen: k.end - k.start }));
+    };
+
+    if (!smartMode || !imgData) return createStandardCuts();
+
+    const { pixelAction, cellSquishDebt, stripCellsIndices } = getStripPlan(
+        totalSize, removeRanges, axisCells, stripStart, stripEnd, energy ?? getEnergyTable(imgData, imgW), isVerticalCut, strategy
+    );
+
+    const crossLimit = isVerticalCut ? imgW : imgH;
+    const stripC0 = Math.max(0, Math.round(stripStart));
+    const stripC1 = Math.min(crossLimit, Math.round(stripEnd));
+
+    // Helper: Copy a cell's kept lines into one band and carve `debt` seams out of it. The band spans the
+    // cell's whole cross extent, so a merged cell gets the same seams in every strip that made the same cut
+    // decisions (a strip that kept other lines carves its own); each strip then takes its own slice.
+    const carveCell = (cIdx: number, debt: number): {keptLen: number, carved: PixelBuffer} => {
+        const rect = axisCells[cIdx];
+        const cStart = isVerticalCut ? rect.y : rect.x;
+        const cEnd = isVerticalCut ? rect.y + rect.h : rect.x + rect.w;
+        const kept: number[] = [];
+        for (let k = Math.max(0, Math.ceil(cStart)); k < Math.min(cEnd, totalSize); k++) {
+            if (pixelAction[k] === 0) kept.push(k);
+        }
+
+        const crossStart = isVerticalCut ? rect.x : rect.y;
+        const crossEnd = isVerticalCut ? rect.x + rect.w : rect.y + rect.h;
+        const c0 = Math.max(0, Math.round(crossStart));
+        const carvings = carveCache.get(cIdx) ?? [];
+        let whole = carvings.find(c => c.debt === debt && c.kept.length === kept.length && c.kept.every((k, i) => k === kept[i]))?.band;
+        if (!whole) {
+            const crossLen = Math.max(0, Math.min(crossLimit, Math.round(crossEnd)) - c0);
+            const band = isVerticalCut ? createPixelBuffer(crossLen, kept.length) : createPixelBuffer(kept.length, crossLen);
+            kept.forEach((line, i) => {
+                for (let c = 0; c < crossLen; c++) {
+                    const si = isVerticalCut ? (line * imgW + c0 + c) * 4 : ((c0 + c) * imgW + line) * 4;
+                    const di = isVerticalCut ? (i * crossLen + c) * 4 : (c * kept.length + i) * 4;
+                    band.data[di] = imgData[si];
+                    band.data[di+1] = imgData[si+1];
+                    band.data[di+2] = imgData[si+2];
+                    band.data[di+3] = imgData[si+3];
+                }
+            });
+            whole = carveSeams(band, debt, isVerticalCut ? 'y' : 'x');
+            carveCache.set(cIdx, [...carvings, { kept, debt, band: whole }]);
+        }
+
+        // This strip's slice of the carved cell
+        const from = Math.max(0, stripC0 - c0);
+        const sliceLen = Math.max(0, Math.min(isVerticalCut ? whole.width : whole.height, stripC1 - c0) - from);
+        const mainLen = isVerticalCut ? whole.height : whole.width;
+        const carved = isVerticalCut ? createPixelBuffer(sliceLen, mainLen) : createPixelBuffer(mainLen, sliceLen);
+        if (isVerticalCut) {
+            for (let y = 0; y < mainLen; y++) {
+                const si = (y * whole.width + from) * 4;
+                carved.data.set(whole.data.subarray(si, si + sliceLen * 4), y * sliceLen * 4);
+            }
+        } else {
+            carved.data.set(whole.data.subarray(from * whole.width * 4, (from + sliceLen) * whole.width * 4));
+        }
+        return { keptLen: kept.length, carved };
+    };
+
+    // Kept lines per indebted cell, counted once rather than for every segment of the cell
+    const remainingCellLen = new Map<number, number>();
+    const getRemainingCellLen = (cIdx: number) => {
+        if (!remainingCellLen.has(cIdx)) {
+            let len = 0;
+            const c = axisCells[cIdx];
+            const cStart = isVerticalCut ? c.y : c.x;
+            const cEnd = isVerticalCut ? c.y + c.h : c.x + c.w;
+            for(let k=cStart; k<cEnd; k++) {
+                if (k >= 0 && k < totalSize && pixelAction[k] === 0) len++;
+            }
+            remainingCellLen.set(cIdx, len);
+        }
+        return remainingCellLen.get(cIdx)!;
+    };
+
+    // 3. Generate Operations based on pixelAction and Squish Debt
+    const ops: DrawOperation[] = [];
+    const carvedCells = new Set<number>();
+    let currentStart = -1;
+    
+    // IMPORTANT: Collect cell boundaries. We MUST split segments at cell boundaries
+    // to ensure that we apply the correct debt/scaling to the correct regions.
+    const splitPoints = new Set<number>();
+    stripCellsIndices.forEach(cIdx => {
+         const c = axisCells[cIdx];
+         const start = isVerticalCut ? c.y : c.x;
+         const end = isVerticalCut ? c.y + c.h : c.x + c.w;
+         splitPoints.add(start);
+         splitPoints.add(end);
+    });
+
+    for (let i = 0; i <= totalSize; i++) {
+        const isCut = i < totalSize ? pixelAction[i] === 1 : true; 
+        const isSplit = splitPoints.has(i);
+
+        // If we have a running segment and we hit a cut OR a boundary, close it.
+        if (currentStart !== -1) {
+            if (isCut || isSplit) {
+                // End of a "Keep" segment
+                const segmentStart = currentStart;
+                const segmentEnd = i;
+                const segmentLen = segmentEnd - segmentStart;
+                
+                if (segmentLen > 0) {
+                    let destLen = segmentLen;
+                    
+                    // Check if this segment belongs to a cell with debt
+                    const mid = segmentStart + segmentLen / 2;
+                    
+                    // Find which cell this segment belongs to
+                    let inCellIdx = -1;
+                    for (const cIdx of stripCellsIndices) {
+                         const c = axisCells[cIdx];
+                         const cStart = isVerticalCut ? c.y : c.x;
+                         const cEnd = isVerticalCut ? c.y + c.h : c.x + c.w;
+                         // Use strict inequality for boundaries to match split logic
+                         if (mid >= cStart && mid < cEnd) {
+                             inCellIdx = cIdx;
+                             break;
+                         }
+                    }
+
+                    if (inCellIdx !== -1 && cellSquishDebt.has(inCellIdx) && strategy === 'seam') {
+                        // The whole cell is emitted once, as a carved band, on its first kept segment
+                        if (!carvedCells.has(inCellIdx)) {
+                            carvedCells.add(inCellIdx);
+                            const { keptLen, carved } = carveCell(inCellIdx, cellSquishDebt.get(inCellIdx)!);
+                            ops.push({
+                                srcStart: segmentStart,
+                                srcLen: keptLen,
+                                destLen: isVerticalCut ? carved.height : carved.width,
+                                carved
+                            });
+                        }
+                    } else {
+                        if (inCellIdx !== -1 && cellSquishDebt.has(inCellIdx)) {
+                            // Calculate scaling factor
+                            // Scale = (TotalRemainingCellLength - Debt) / TotalRemainingCellLength
+                            const totalRemainingCellLen = getRemainingCellLen(inCellIdx);
+
+                            if (totalRemainingCellLen > 0) {
+                                const debt = cellSquishDebt.get(inCellIdx)!;
+                                // Prevent scale < 0
+                                const scale = Math.max(0, totalRemainingCellLen - debt) / totalRemainingCellLen;
+                                destLen = segmentLen * scale;
+                            }
+                        }
+
+                        ops.push({
+                            srcStart: segmentStart,
+                            srcLen: segmentLen,
+                            destLen: destLen
+                        });
+                    }
+                }
+                
+                currentStart = -1;
+            }
+        }
+        
+        if (!isCut) {
+            if (currentStart === -1) currentStart = i;
+        }
+    }
+
+    return ops;
+};
+
+export const invertRanges = (totalSize: number, removeRanges: Range[]): Range[] => {
+    const keep: Range[] = [];
+    let cursor = 0;
+    const sorted = [...removeRanges].sort((a,b) => a.start - b.start);
+    
+    sorted.forEach(r => {
+        if (r.start > cursor) keep.push({ start: cursor, end: r.start });
+        cursor = Math.max(cursor, r.end);
+    });
+    if (cursor < totalSize) keep.push({ start: cursor, end: totalSize });
+    return keep;
+};
+
+
+export const mergeRanges = (ranges: Range[]): Range[] => {
+    if (ranges.length === 0) return [];
+    const sorted = ranges.map(r => ({ ...r })).sort((a, b) => a.start - b.start);
+    const merged = [sorted[0]];
+    for (let i = 1; i < sorted.length; i++) {
+        const prev = merged[merged.length - 1];
+        const curr = sorted[i];
+        if (curr.start < prev.end + 1) prev.end = Math.max(prev.end, curr.end);
+        else merged.push(curr);
+    }
+    return merged;
+};
+
+// Normalise selections (which may carry negative w/h from drag direction) into
+// merged global X and Y removal ranges. A selection's own axis wins over `mode`.
+export const getRemoveRanges = (selections: CropSelection[], mode: CropMode) => {
+    const xRanges: Range[] = [];
+    const yRanges: Range[] = [];
+
+    selections.forEach(s => {
+        let rx = Math.floor(s.x), ry = Math.floor(s.y);
+        const rw = Math.ceil(Math.abs(s.w)), rh = Math.ceil(Math.abs(s.h));
+        if (s.w < 0) rx -= rw;
+        if (s.h < 0) ry -= rh;
+        const axis = s.axis ?? mode;
+        // Zero-size axes (e.g. a pure row band) contribute nothing to that axis
+        if (rh > 0 && (axis === 'horizontal' || axis === 'both')) yRanges.push({ start: ry, end: ry + rh });
+        if (rw > 0 && (axis === 'vertical' || axis === 'both')) xRanges.push({ start: rx, end: rx + rw });
+    });
+
+    return {
+        xRanges: mergeRanges(xRanges),
+        yRanges: mergeRanges(yRanges)
+    };
+};
+
+// Map a coordinate in the source image to its position after `ranges` are removed
+export const mapAxis = (v: number, ranges: Range[]) => {
+    let shift = 0;
+    for (const r of ranges) {
+        if (v >= r.end) shift += (r.end - r.start);
+        else if (v > r.start) shift += (v - r.start);
+    }
+    return v - shift;
+};
+
+// Grid Persistence: drop lines inside removed ranges, shift the rest
+export const remapGrid = (grid: Grid, xRanges: Range[], yRanges: Range[]): Grid => {
+    const mapX = (x: number) => mapAxis(x, xRanges);
+    const mapY = (y: number) => mapAxis(y, yRanges);
+
+    const nextH = grid.horizontal.map(l => {
+        let removed = false;
+        for (const r of yRanges) { if (l.pos > r.start && l.pos < r.end) removed = true; }
+        if (removed) return null;
+        return { pos: mapY(l.pos), thickness: l.thickness, start: mapX(l.start), end: mapX(l.end) };
+    }).filter(Boolean) as GridLine[];
+
+    const nextV = grid.vertical.map(l => {
+        let removed = false;
+        for (const r of xRanges) { if (l.pos > r.start && l.pos < r.end) removed = true; }
+        if (removed) return null;
+        return { pos: mapX(l.pos), thickness: l.thickness, start: mapY(l.start), end: mapY(l.end) };
+    }).filter(Boolean) as GridLine[];
+
+    return { horizontal: nextH, vertical: nextV };
+};
+
+// Inverse of mapAxis: where a source coordinate ends up after `inserts` are added.
+// Each insert is given in source coordinates as [at, at + amount); content at or after `at` moves on.
+export const expandAxis = (v: number, inserts: Range[]) => {
+    let shift = 0;
+    for (const r of inserts) {
+        if (v >= r.start) shift += (r.end - r.start);
+    }
+    return v + shift;
+};
+
+// Grid Persistence for inserted space: shift lines past each insert and stretch the spans crossing it
+export const expandGrid = (grid: Grid, xInserts: Range[], yInserts: Range[]): Grid => {
+    const mapX = (x: number) => expandAxis(x, xInserts);
+    const mapY = (y: number) => expandAxis(y, yInserts);
+
+    return {
+        horizontal: grid.horizontal.map(l => ({ pos: mapY(l.pos), thickness: l.thickness, start: mapX(l.start), end: mapX(l.end) })),
+        vertical: grid.vertical.map(l => ({ pos: mapX(l.pos), thickness: l.thickness, start: mapY(l.start), end: mapY(l.end) }))
+    };
+};
+
+// Lines a removed range touches: those cut away with it and those on its edges
+const getSeamLines = (lines: GridLine[], r: Range) =>
+    lines.filter(l => {
+        const reach = Math.ceil(l.thickness / 2) + 2;
+        return l.pos >= r.start - reach && l.pos <= r.end + reach;
+    });
+
+// Border repair: where a removed range touched a border, the seam left behind may show half a
+// line, two lines or none. The strokes of the lines involved are cleared back to the cell
+// background and one line is painted across the seam, with their colour and thickest stroke,
+// over the span each of them covered. Strokes of crossing lines are left alone.
+// Returns the seam lines (output coordinates) and the source lines they replace.
+const redrawSeams = (
+    source: PixelBuffer,
+    out: PixelBuffer,
+    lines: GridLine[],
+    ranges: Range[],
+    crossRanges: Range[],
+    crossLines: GridLine[],
+    isRow: boolean
+) => {
+    const seams: GridLine[] = [];
+    const replaced = new Set<GridLine>();
+    const size = isRow ? out.height : out.width;
+    const crossSize = isRow ? out.width : out.height;
+    const index = (p: number, c: number) => (isRow ? p * out.width + c : c * out.width + p) * 4;
+    const isCrossing = (p: number, c: number) =>
+        crossLines.some(l => Math.abs(c - l.pos) <= l.thickness / 2 + 0.5 && p >= l.start && p <= l.end);
+
+    ranges.forEach(r => {
+        const touched = getSeamLines(lines, r);
+        if (touched.length === 0) return;
+
+        const widest = touched.reduce((a, b) => b.thickness > a.thickness ? b : a);
+        const t = Math.max(1, Math.min(size, Math.round(widest.thickness)));
+        const span = Math.round(widest.end - widest.start);
+        const sampleStart = Math.round(widest.pos - t / 2);
+        const [cr, cg, cb, ca] = getDominantColor(source, isRow
+            ? { x: Math.round(widest.start), y: sampleStart, w: span, h: t }
+            : { x: sampleStart, y: Math.round(widest.start), w: t, h: span });
+
+        const seam = mapAxis(r.start, ranges);
+        const p0 = Math.max(0, Math.min(size - t, Math.round(seam - t / 2)));
+
+        // Old strokes that survived the cut (lines inside the range are gone already)
+        let band0 = p0, band1 = p0 + t;
+        touched.forEach(l => {
+            if (l.pos > r.start && l.pos < r.end) return;
+            const mapped = mapAxis(l.pos, ranges);
+            band0 = Math.min(band0, Math.max(0, Math.round(mapped - l.thickness / 2)));
+            band1 = Math.max(band1, Math.min(size, Math.round(mapped + l.thickness / 2)));
+        });
+
+        touched.forEach(l => {
+            const start = mapAxis(l.start, crossRanges);
+            const end = mapAxis(l.end, crossRanges);
+            const c0 = Math.max(0, Math.round(start));
+            const c1 = Math.min(crossSize, Math.round(end));
+            if (c1 <= c0) return;
+
+            // Background just past the band, on whichever side stays inside the image
+            const after = band1 + 3 <= size;
+            const bgStart = after ? band1 : Math.max(0, band0 - 3);
+            const bgLen = after ? 3 : band0 - bgStart;
+            const [br, bg, bb, ba] = bgLen > 0
+                ? getDominantColor(out, isRow
+                    ? { x: c0, y: bgStart, w: c1 - c0, h: bgLen }
+                    : { x: bgStart, y: c0, w: bgLen, h: c1 - c0 })
+                : [cr, cg, cb, ca];
+
+            for (let p = band0; p < band1; p++) {
+                const onSeam = p >= p0 && p < p0 + t;
+                for (let c = c0; c < c1; c++) {
+                    if (!onSeam && isCrossing(p, c)) continue;
+                    const i = index(p, c);
+                    if (onSeam) {
+                        out.data[i] = cr; out.data[i+1] = cg; out.data[i+2] = cb; out.data[i+3] = ca;
+                    } else {
+                        out.data[i] = br; out.data[i+1] = bg; out.data[i+2] = bb; out.data[i+3] = ba;
+                    }
+                }
+            }
+            seams.push({ pos: seam, thickness: t, start, end });
+            replaced.add(l);
+        });
+    });
+    return { seams, replaced };
+};
+
+// Snap a strip's operations onto whole destination pixels. Each op starts at the rounded
+// running total of the (fractional) lengths before it, so rounding error never accumulates,
+// and strips with the same ops up to a point land on exactly the same pixels.
+export const layoutOperations = (ops: DrawOperation[]) => {
+    let cursor = 0;
+    return ops.map(op => {
+        const destStart = Math.round(cursor);
+        cursor += op.destLen;
+        return { op, destStart, destLen: Math.round(cursor) - destStart };
+    });
+};
+
+const toStrips = (lines: number[]): Range[] => {
+    const sorted = [...lines].sort((a,b)=>a-b);
+    const unique = sorted.filter((v, i) => i === 0 || v > sorted[i-1] + 1);
+    const strips: Range[] = [];
+    for(let i=0; i<unique.length-1; i++) {
+        strips.push({start: unique[i], end: unique[i+1]});
+    }
+    return strips;
+};
+
+export const cropPixels = (
+    image: PixelBuffer,
+    selections: CropSelection[],
+    grid: Grid | null,
+    mode: CropMode,
+    smartMode: boolean = true,
+    strategy: SmartStrategy = 'squish',
+    filter: ResampleFilter = 'box',
+    redrawBorders: boolean = false
+): PixelCropResult => {
+    const { width, height } = image;
+    const { xRanges: globalXRanges, yRanges: globalYRanges } = getRemoveRanges(selections, mode);
+
+    // The remove amount equals the total selection size (Physical + Squished)
+    const removeW = globalXRanges.reduce((acc, r) => acc + (r.end - r.start), 0);
+    const removeH = globalYRanges.reduce((acc, r) => acc + (r.end - r.start), 0);
+    const finalW = Math.max(1, width - removeW);
+    const finalH = Math.max(1, height - removeH);
+
+    let cells: Rect[] = [];
+    if (grid && smartMode) {
+        cells = getActualCells(grid, width, height);
+    }
+
+    // --- PASS 1: Vertical Fold (Removing Rows) ---
+    let pass1 = image;
+    if (globalYRanges.length > 0) {
+        pass1 = createPixelBuffer(width, finalH);
+        const carveCache: CarveCache = new Map();
+        const energy = getEnergyTable(image.data, width);
+        const vStrips = toStrips((grid ? grid.vertical.map(l => l.pos) : []).concat([0, width]));
+
+        vStrips.forEach(strip => {
+            const ops = getStripOperations(
+                height, globalYRanges, cells, 
+                strip.start, strip.end, 
+                smartMode, image.data, width, height, true, strategy, carveCache, energy
+            );
+            
+            layoutOperations(ops).forEach(({ op, destStart, destLen }) => {
+                if (op.carved) {
+                    pasteBuffer(op.carved, pass1, Math.max(0, Math.round(strip.start)), destStart);
+                } else {
+                    resampleBand(image, pass1, 'y', strip.start, strip.end, op.srcStart, op.srcLen, destStart, destLen, filter);
+                }
+            });
+        });
+    }
+
+    // --- PASS 2: Horizontal Fold (Removing Columns) ---
+    let result = pass1;
+    if (globalXRanges.length > 0) {
+        result = createPixelBuffer(finalW, pass1.height);
+        const carveCache: CarveCache = new Map();
+        const energy = getEnergyTable(pass1.data, pass1.width);
+        const mapYGlobal = (y: number) => mapAxis(y, globalYRanges);
+
+        const mappedCells = cells.map(c => ({
+            ...c,
+            y: mapYGlobal(c.y),
+            h: mapYGlobal(c.y + c.h) - mapYGlobal(c.y)
+        }));
+
+        const hStrips = toStrips((grid ? grid.horizontal.map(l => mapYGlobal(l.pos)) : []).concat([0, finalH]));
+
+        hStrips.forEach(strip => {
+            const ops = getStripOperations(
+                width, globalXRanges, mappedCells, 
+                strip.start, strip.end, 
+                smartMode, pass1.data, pass1.width, pass1.height, false, strategy, carveCache, energy
+            );
+            
+            layoutOperations(ops).forEach(({ op, destStart, destLen }) => {
+                if (op.carved) {
+                    pasteBuffer(op.carved, result, destStart, Math.max(0, Math.round(strip.start)));
+                } else {
+                    resampleBand(pass1, result, 'x', strip.start, strip.end, op.srcStart, op.srcLen, destStart, destLen, filter);
+                }
+            });
+        });
+    }
+
+    const output = result === image ? clonePixelBuffer(image) : result;
+    if (!grid) return { image: output };
+
+    const nextGrid = remapGrid(grid, globalXRanges, globalYRanges);
+    if (!redrawBorders) return { image: output, grid: nextGrid };
+
+    const h = redrawSeams(image, output, grid.horizontal, globalYRanges, globalXRanges, nextGrid.vertical, true);
+    const v = redrawSeams(image, output, grid.vertical, globalXRanges, globalYRanges, nextGrid.horizontal, false);
+
+    // Each seam line stands in for the lines that met there
+    const kept = remapGrid({
+        horizontal: grid.horizontal.filter(l => !h.replaced.has(l)),
+        vertical: grid.vertical.filter(l => !v.replaced.has(l))
+    }, globalXRanges, globalYRanges);
+    return {
+        image: output,
+        grid: {
+            horizontal: mergeCollinearLines([...kept.horizontal, ...h.seams]),
+            vertical: mergeCollinearLines([...kept.vertical, ...v.seams])
+        }
+    };
+};
+
+// Source-space picture of what cropPixels will do: runs of lines that are physically cut,
+// and the kept part of cells that still owe lines (squished or carved).
+// Column decisions are planned against the source rather than the row-cut intermediate,
+// which is close enough for an overlay.
+export const getCropPlan = (
+    image: PixelBuffer,
+    selections: CropSelection[],
+    grid: Grid | null,
+    mode: CropMode,
+    smartMode: boolean = true,
+    strategy: SmartStrategy = 'squish'
+): CropPlanRegion[] => {
+    const { width, height } = image;
+    const { xRanges, yRanges } = getRemoveRanges(selections, mode);
+    const cells = grid && smartMode ? getActualCells(grid, width, height) : [];
+    const regions: CropPlanRegion[] = [];
+    const energy = getEnergyTable(image.data, width);
+
+    const planAxis = (ranges: Range[], lines: number[], isVerticalCut: boolean) => {
+        if (ranges.length === 0) return;
+        const totalSize = isVerticalCut ? height : width;
+        const crossSize = isVerticalCut ? width : height;
+
+        toStrips(lines.concat([0, crossSize])).forEach(strip => {
+            const push = (start: number, end: number, action: CropPlanRegion['action']) => regions.push({
+                rect: isVerticalCut
+                    ? { x: strip.start, y: start, w: strip.end - strip.start, h: end - start }
+                    : { x: start, y: strip.start, w: end - start, h: strip.end - strip.start },
+                action
+            });
+
+            if (!smartMode) {
+                ranges.forEach(r => push(Math.max(0, r.start), Math.min(totalSize, r.end), 'cut'));
+                return;
+            }
+
+            const { pixelAction, cellSquishDebt } = getStripPlan(
+                totalSize, ranges, cells, strip.start, strip.end, energy, isVerticalCut, strategy
+            );
+
+            // Emit each run of lines in [from, to) whose action matches
+            const pushRuns = (from: number, to: number, value: number, action: CropPlanRegion['action']) => {
+                let runStart = -1;
+                for (let i = from; i <= to; i++) {
+                    const match = i < to && pixelAction[i] === value;
+                    if (match && runStart === -1) runStart = i;
+                    if (!match && runStart !== -1) {
+                        push(runStart, i, action);
+                        runStart = -1;
+                    }
+                }
+            };
+
+            pushRuns(0, totalSize, 1, 'cut');
+            cellSquishDebt.forEach((_, cIdx) => {
+                const c = cells[cIdx];
+                const cStart = isVerticalCut ? c.y : c.x;
+                const cEnd = isVerticalCut ? c.y + c.h : c.x + c.w;
+                pushRuns(Math.max(0, cStart), Math.min(totalSize, cEnd), 0, 'squish');
+            });
+        });
+    };
+
+    planAxis(yRanges, grid ? grid.vertical.map(l => l.pos) : [], true);
+    planAxis(xRanges, grid ? grid.horizontal.map(l => l.pos) : [], false);
+    return regions;
+};
@@ -0,0 +1,112 @@
+import { PixelBuffer } from '../types';
+import { createPixelBuffer, getDominantColor } from './pixelBuffer';
+
+// Deskew: scanGrid only finds perfectly axis-aligned lines, so a slightly rotated scan or
+// photo yields no grid. The dominant line angle is estimated from a projection profile
+// (the shear at which edge pixels pile up into the fewest, fullest rows) and rotated out.
+
+const MAX_SKEW = 5; // Degrees searched either way
+const MIN_SKEW = 0.05; // Below this the image is left alone
+const SAMPLE_SIZE = 800; // Longest side analysed (px), larger images are subsampled
+const EDGE_THRESHOLD = 40; // Luminance step that counts as an edge
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+    data[i] * 0.299 + data[i+1] * 0.587 + data[i+2] * 0.114;
+
+// Skew in degrees, positive when lines run downhill to the right. 0 when nothing stands out.
+export const estimateSkew = (image: PixelBuffer): number => {
+    const { width, height, data } = image;
+    const step = Math.max(1, Math.ceil(Math.max(width, height) / SAMPLE_SIZE));
+
+    // Horizontal edges on a subsampled lattice, in lattice units
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y + step < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            const i = (y * width + x) * 4;
+            if (Math.abs(luminance(data, i) - luminance(data, i + width * step * 4)) > EDGE_THRESHOLD) {
+                xs.push(x / step);
+                ys.push(y / step);
+            }
+        }
+    }
+    if (xs.length === 0) return 0;
+
+    const cols = Math.ceil(width / step);
+    const rows = Math.ceil(height / step);
+    const offset = Math.ceil(cols * Math.tan(MAX_SKEW * Math.PI / 180)) + 1;
+    const bins = new Float64Array(rows + offset * 2 + 1);
+
+    // Sum of squared row counts after shearing by `angle`: peaks when lines become rows
+    const score = (angle: number) => {
+        const t = Math.tan(angle * Math.PI / 180);
+        bins.fill(0);
+        for (let k = 0; k < xs.length; k++) {
+            bins[Math.round(ys[k] - xs[k] * t) + offset]++;
+        }
+        let sum = 0;
+        for (let b = 0; b < bins.length; b++) sum += bins[b] * bins[b];
+        return sum;
+    };
+
+    const search = (from: number, to: number, by: number, start: number) => {
+        let best = start, bestScore = score(start);
+        for (let a = from; a <= to + 1e-9; a += by) {
+            const s = score(a);
+            if (s > bestScore) { best = a; bestScore = s; }
+        }
+        return best;
+    };
+
+    const coarse = search(-MAX_SKEW, MAX_SKEW, 0.25, 0);
+    const fine = search(coarse - 0.25, coarse + 0.25, 0.02, coarse);
+    return Math.abs(fine) < MIN_SKEW ? 0 : Math.round(fine * 100) / 100;
+};
+
+// Rotate about the centre by -`angle` degrees (undoing a skew of `angle`), keeping the size.
+// Bilinear sampling; corners that come from outside the source take the background colour.
+// Progress (0..1) is reported roughly every 1% of rows.
+export const rotatePixels = (image: PixelBuffer, angle: number, onProgress?: (progress: number) => void): PixelBuffer => {
+    const { width, height, data } = image;
+    const out = createPixelBuffer(width, height);
+    const background = getDominantColor(image, { x: 0, y: 0, w: width, h: height });
+    const cos = Math.cos(angle * Math.PI / 180);
+    const sin = Math.sin(angle * Math.PI / 180);
+    const cx = (width - 1) / 2;
+    const cy = (height - 1) / 2;
+    const progressStep = Math.max(1, Math.floor(height / 100));
+
+    for (let y = 0; y < height; y++) {
+        if (onProgress && y % progressStep === 0) onProgress(y / height);
+        for (let x = 0; x < width; x++) {
+            const sx = cx + (x - cx) * cos - (y - cy) * sin;
+            const sy = cy + (x - cx) * sin + (y - cy) * cos;
+            const x0 = Math.floor(sx), y0 = Math.floor(sy);
+            const fx = sx - x0, fy = sy - y0;
+            const di = (y * width + x) * 4;
+
+            for (let ch = 0; ch < 4; ch++) {
+                let v = 0;
+                for (let k = 0; k < 4; k++) {
+                    const px = x0 + (k & 1), py = y0 + (k >> 1);
+                    const w = ((k & 1) ? fx : 1 - fx) * ((k >> 1) ? fy : 1 - fy);
+                    if (w === 0) continue;
+                    const inside = px >= 0 && px < width && py >= 0 && py < height;
+                    v += w * (inside ? data[(py * width + px) * 4 + ch] : background[ch]);
+                }
+                out.data[di + ch] = v;
+            }
+        }
+    }
+    return out;
+};
+
+// Straightened copy and the angle removed, or null when the image is already level.
+// The estimate only reads a subsampled lattice; progress covers the full-size rotation.
+export const deskewPixels = (image: PixelBuffer, onProgress?: (progress: number) => void): { image: PixelBuffer, angle: number } | null => {
+    const angle = estimateSkew(image);
+    if (angle === 0) return null;
+    const rotated = rotatePixels(image, angle, onProgress);
+    onProgress?.(1);
+    return { image: rotated, angle };
+};
@@ -0,0 +1,10 @@
+import { deskewPixels } from './deskew';
+import { DeskewWorkerRequest, DeskewWorkerResponse } from '../types';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<DeskewWorkerRequest>) => {
+  const post = (msg: DeskewWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+  const result = deskewPixels(e.data.image, (progress) => post({ type: 'progress', progress }));
+  post({ type: 'result', result }, result ? [result.image.data.buffer] : []);
+};
@@ -0,0 +1,133 @@
+import { CropSelection, Rect } from '../../../types';
+import { GapProposal, GapSettings, PixelBuffer } from '../types';
+import { UNSAFE_ENERGY_THRESHOLD } from './cropCore';
+
+export const DEFAULT_GAP_SETTINGS: GapSettings = {
+  minGap: 20,
+  padding: 4,
+  rows: true,
+  columns: true
+};
+
+// Max summed RGB distance between a line's mean colour and the background colour
+const COLOR_TOLERANCE = 24;
+
+interface LineStats {
+  energy: Float32Array; // Average |pixel - next pixel| along each line (same measure as getRegionEnergy)
+  color: Float32Array;  // Mean RGB of each line
+}
+
+const getLineStats = (image: PixelBuffer, axis: 'horizontal' | 'vertical'): LineStats => {
+  const { data, width, height } = image;
+  const count = axis === 'horizontal' ? height : width;
+  const along = axis === 'horizontal' ? width : height;
+  const step = axis === 'horizontal' ? 4 : width * 4;
+
+  const energy = new Float32Array(count);
+  const color = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    let idx = axis === 'horizontal' ? i * width * 4 : i * 4;
+    let e = 0, r = 0, g = 0, b = 0;
+    for (let j = 0; j < along; j++, idx += step) {
+      r += data[idx]; g += data[idx+1]; b += data[idx+2];
+      if (j + 1 < along) {
+        e += Math.abs(data[idx] - data[idx+step]) +
+             Math.abs(data[idx+1] - data[idx+step+1]) +
+             Math.abs(data[idx+2] - data[idx+step+2]);
+      }
+    }
+    energy[i] = along > 1 ? e / (along - 1) : 0;
+    color[i*3] = r / along;
+    color[i*3+1] = g / along;
+    color[i*3+2] = b / along;
+  }
+  return { energy, color };
+};
+
+// Background = the most common colour among low-energy lines (quantised to 5 bits per channel)
+const estimateBackground = (stats: LineStats[]): [number, number, number] | null => {
+  const bins = new Map<number, { count: number, r: number, g: number, b: number }>();
+  for (const { energy, color } of stats) {
+    for (let i = 0; i < energy.length; i++) {
+      if (energy[i] >= UNSAFE_ENERGY_THRESHOLD) continue;
+      const r = color[i*3], g = color[i*3+1], b = color[i*3+2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bin = bins.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+      bin.count++; bin.r += r; bin.g += g; bin.b += b;
+      bins.set(key, bin);
+    }
+  }
+  let best: { count: number, r: number, g: number, b: number } | null = null;
+  for (const bin of bins.values()) {
+    if (!best || bin.count > best.count) best = bin;
+  }
+  if (!best) return null;
+  const { count, r, g, b } = best;
+  return [r / count, g / count, b / count];
+};
+
+// Find full-length runs of uniform background along rows and/or columns.
+// Runs shorter than minGap are ignored; `padding` px of each run is kept on both sides.
+export const findBlankBands = (image: PixelBuffer, settings: GapSettings): GapProposal[] => {
+  const axes: ('horizontal' | 'vertical')[] = [];
+  if (settings.rows) axes.push('horizontal');
+  if (settings.columns) axes.push('vertical');
+  if (axes.length === 0) return [];
+
+  const stats = axes.map(axis => getLineStats(image, axis));
+  const bg = estimateBackground(stats);
+  if (!bg) return [];
+
+  const proposals: GapProposal[] = [];
+  axes.forEach((axis, a) => {
+    const { energy, color } = stats[a];
+    const isBlank = (i: number) =>
+      energy[i] < UNSAFE_ENERGY_THRESHOLD &&
+      Math.abs(color[i*3] - bg[0]) + Math.abs(color[i*3+1] - bg[1]) + Math.abs(color[i*3+2] - bg[2]) <= COLOR_TOLERANCE;
+
+    let runStart = -1;
+    for (let i = 0; i <= energy.length; i++) {
+      const blank = i < energy.length && isBlank(i);
+      if (blank && runStart === -1) runStart = i;
+      if (!blank && runStart !== -1) {
+        const start = runStart + settings.padding;
+        const end = i - settings.padding;
+        if (i - runStart >= settings.minGap && end > start) {
+          proposals.push({ axis, start, end, selected: true });
+        }
+        runStart = -1;
+      }
+    }
+  });
+  return proposals;
+};
+
+// Full-extent rectangle of a proposal, for display and hit-testing
+export const getProposalRect = (p: GapProposal, imgW: number, imgH: number): Rect =>
+  p.axis === 'horizontal'
+    ? { x: 0, y: p.start, w: imgW, h: p.end - p.start }
+    : { x: p.start, y: 0, w: p.end - p.start, h: imgH };
+
+// Selections for cropPixels: each band is tagged with its own axis, so a row band
+// only removes rows and a column band only columns.
+export const proposalsToSelections = (proposals: GapProposal[], imgW: number, imgH: number): CropSelection[] =>
+  proposals.filter(p => p.selected).map(p => ({
+    ...getProposalRect(p, imgW, imgH),
+    axis: p.axis
+  }));
+
+// Index of the proposal under the pointer; where a row and a column band cross, the narrower wins
+export const findProposalAt = (proposals: GapProposal[], x: number, y: number): number => {
+  let best = -1;
+  let bestSize = Infinity;
+  proposals.forEach((p, i) => {
+    const v = p.axis === 'horizontal' ? y : x;
+    const size = p.end - p.start;
+    if (v >= p.start && v < p.end && size < bestSize) {
+      best = i;
+      bestSize = size;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,200 @@
+import { Grid, GridLine } from '../../../types';
+import { Segment, PixelBuffer, DetectionSettings, DetectionPreset } from '../types';
+
+export type DetectionProgress = (progress: number) => void;
+
+// Contrast 50 ignores faint noise/text; minimum segment length of 3% of the
+// smaller dimension (at least 40px) filters out text underlines and small artifacts.
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  contrastThreshold: 50,
+  minSegmentLength: 40,
+  minSegmentRatio: 0.03,
+  gapTolerance: 8,
+  posTolerance: 6
+};
+
+export const DETECTION_PRESETS: Record<DetectionPreset, DetectionSettings> = {
+  default: DEFAULT_DETECTION_SETTINGS,
+  // Light-gray borders on white: accept weak contrast, bridge anti-aliased gaps
+  faint: { contrastThreshold: 15, minSegmentLength: 40, minSegmentRatio: 0.03, gapTolerance: 12, posTolerance: 6 },
+  // Subtle separators on dark backgrounds
+  dark: { contrastThreshold: 25, minSegmentLength: 40, minSegmentRatio: 0.03, gapTolerance: 10, posTolerance: 6 },
+  // Text-heavy tables: only long, strong lines count
+  dense: { contrastThreshold: 60, minSegmentLength: 80, minSegmentRatio: 0.08, gapTolerance: 4, posTolerance: 4 }
+};
+
+// DOM-free grid scan over a PixelBuffer. Runs inside the detection worker (see gridDetection.ts).
+export const scanGrid = (
+  image: PixelBuffer,
+  settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS,
+  onProgress?: DetectionProgress
+): Grid => {
+    const { data, width, height } = image;
+
+    const getLum = (idx: number) => (data[idx] + data[idx+1] + data[idx+2]);
+
+    const CONTRAST_THRESH = settings.contrastThreshold;
+    const MIN_SEG_LEN = Math.max(settings.minSegmentLength, Math.min(width, height) * settings.minSegmentRatio);
+
+    const GAP_TOLERANCE = settings.gapTolerance;
+    const POS_TOLERANCE = settings.posTolerance;
+
+    // Progress is reported roughly every 1%: the horizontal pass covers 0..0.5,
+    // the vertical pass 0.5..1.
+    const hStep = Math.max(1, Math.floor(height / 50));
+    const vStep = Math.max(1, Math.floor(width / 50));
+
+    // --- Horizontal Scan ---
+    const rawH: Segment[] = [];
+    let hId = 0;
+    for (let y = 1; y < height - 1; y++) {
+        if (onProgress && y % hStep === 0) onProgress(0.5 * y / height);
+        let startX = -1;
+        for (let x = 0; x < width; x++) {
+            const idx = (y * width + x) * 4;
+            const idxUp = ((y - 1) * width + x) * 4;
+            const idxDown = ((y + 1) * width + x) * 4;
+            const lum = getLum(idx);
+
+            // Basic edge detection
+            const isEdge = Math.abs(lum - getLum(idxUp)) > CONTRAST_THRESH ||
+                           Math.abs(lum - getLum(idxDown)) > CONTRAST_THRESH;
+
+            if (isEdge) {
+                if (startX === -1) startX = x;
+            } else {
+                if (startX !== -1) {
+                    if (x - startX > MIN_SEG_LEN) {
+                        rawH.push({ id: hId++, pos: y, start: startX, end: x, length: x - startX });
+                    }
+                    startX = -1;
+                }
+            }
+        }
+        if (startX !== -1 && width - startX > MIN_SEG_LEN) {
+           rawH.push({ id: hId++, pos: y, start: startX, end: width, length: width - startX });
+        }
+    }
+
+    // --- Vertical Scan ---
+    const rawV: Segment[] = [];
+    let vId = 0;
+    for (let x = 1; x < width - 1; x++) {
+        if (onProgress && x % vStep === 0) onProgress(0.5 + 0.5 * x / width);
+        let startY = -1;
+        for (let y = 0; y < height; y++) {
+            const idx = (y * width + x) * 4;
+            const idxLeft = (y * width + (x - 1)) * 4;
+            const idxRight = (y * width + (x + 1)) * 4;
+            const lum = getLum(idx);
+
+            const isEdge = Math.abs(lum - getLum(idxLeft)) > CONTRAST_THRESH ||
+                           Math.abs(lum - getLum(idxRight)) > CONTRAST_THRESH;
+
+            if (isEdge) {
+                if (startY === -1) startY = y;
+            } else {
+                if (startY !== -1) {
+                    if (y - startY > MIN_SEG_LEN) {
+                        rawV.push({ id: vId++, pos: x, start: startY, end: y, length: y - startY });
+                    }
+                    startY = -1;
+                }
+            }
+        }
+        if (startY !== -1 && height - startY > MIN_SEG_LEN) {
+            rawV.push({ id: vId++, pos: x, start: startY, end: height, length: height - startY });
+        }
+    }
+
+    // --- Cluster Segments ---
+    // Segments at nearby positions are averaged into one line position, then joined
+    // along their length where the gap is small. Each joined run keeps its own span,
+    // and its thickness comes from the spread of raw edge rows/columns it absorbed:
+    // a t-px stroke produces edges from one pixel before it to one pixel after it.
+    const clusterSegments = (items: Segment[], posKey: 'pos', startKey: 'start', endKey: 'end') => {
+        items.sort((a, b) => a[posKey] - b[posKey]);
+        const merged: Segment[] = [];
+
+        let currentGroup: Segment[] = [];
+        if (items.length > 0) currentGroup.push(items[0]);
+
+        const processGroup = (group: Segment[]) => {
+             const avgPos = Math.round(group.reduce((acc, i) => acc + i[posKey], 0) / group.length);
+             group.sort((a, b) => a[startKey] - b[startKey]);
+
+             let curr = { ...group[0], pos: avgPos };
+             let minRaw = group[0][posKey], maxRaw = group[0][posKey];
+             const flush = () => {
+                 merged.push({ ...curr, thickness: Math.max(1, maxRaw - minRaw - 1) });
+             };
+             for (let i = 1; i < group.length; i++) {
+                 const next = group[i];
+                 if (next[startKey] <= curr[endKey] + GAP_TOLERANCE) {
+                     curr[endKey] = Math.max(curr[endKey], next[endKey]);
+                     curr.length = curr[endKey] - curr[startKey];
+                     minRaw = Math.min(minRaw, next[posKey]);
+                     maxRaw = Math.max(maxRaw, next[posKey]);
+                 } else {
+                     flush();
+                     curr = { ...next, pos: avgPos };
+                     minRaw = maxRaw = next[posKey];
+                 }
+             }
+             flush();
+        };
+
+        for (let i = 1; i < items.length; i++) {
+            const item = items[i];
+            const prev = currentGroup[0];
+            if (Math.abs(item.pos - prev.pos) <= POS_TOLERANCE) {
+                currentGroup.push(item);
+            } else {
+                processGroup(currentGroup);
+                currentGroup = [item];
+            }
+        }
+        if (currentGroup.length > 0) processGroup(currentGroup);
+        return merged.map((m, i) => ({ ...m, id: i }));
+    };
+
+    const hSegments = clusterSegments(rawH, 'pos', 'start', 'end');
+    const vSegments = clusterSegments(rawV, 'pos', 'start', 'end');
+
+    // Snap segment ends onto nearby perpendicular lines (or the image border), so that
+    // a border stopping a pixel short of, or overshooting, a crossing still forms a
+    // clean wall in getActualCells. Lines that never cross (merged cells) keep their gap.
+    const snapEnds = (segs: Segment[], perps: Segment[], limit: number): GridLine[] => {
+        return segs.map(seg => {
+            const tol = GAP_TOLERANCE + (seg.thickness ?? 1);
+            const stops = perps
+                .filter(p => p.start - tol <= seg.pos && p.end + tol >= seg.pos)
+                .map(p => p.pos)
+                .concat([0, limit]);
+            const snap = (v: number) => {
+                let best = v;
+                let minDist = tol;
+                for (const p of stops) {
+                    const d = Math.abs(p - v);
+                    if (d <= minDist) { minDist = d; best = p; }
+                }
+                return best;
+            };
+            return { pos: seg.pos, thickness: seg.thickness ?? 1, start: snap(seg.start), end: snap(seg.end) };
+        }).filter(l => l.end - l.start > 1);
+    };
+
+    const byPos = (a: GridLine, b: GridLine) => a.pos - b.pos || a.start - b.start;
+    const finalH = snapEnds(hSegments, vSegments, width).sort(byPos);
+    const finalV = snapEnds(vSegments, hSegments, height).sort(byPos);
+
+    // Ensure strict boundary lines
+    if (finalH.length === 0 || finalH[0].pos > 5) finalH.unshift({ pos: 0, thickness: 0, start: 0, end: width });
+    if (finalH.length > 0 && finalH[finalH.length-1].pos < height - 5) finalH.push({ pos: height, thickness: 0, start: 0, end: width });
+
+    if (finalV.length === 0 || finalV[0].pos > 5) finalV.unshift({ pos: 0, thickness: 0, start: 0, end: height });
+    if (finalV.length > 0 && finalV[finalV.length-1].pos < width - 5) finalV.push({ pos: width, thickness: 0, start: 0, end: height });
+
+    onProgress?.(1);
+    return { horizontal: finalH, vertical: finalV };
+};
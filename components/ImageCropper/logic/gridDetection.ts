@@ -1,158 +1,111 @@
-import { HistoryItem, Grid, GridLine } from '../../../types';
-import { Segment } from '../types';
+import { HistoryItem, Grid } from '../../../types';
+import { DetectionSettings, DetectionWorkerRequest, DetectionWorkerResponse } from '../types';
+import { loadPixelBuffer } from './canvasIO';
+import { DetectionProgress, DEFAULT_DETECTION_SETTINGS } from './gridCore';
 
-export const detectGrid = (
-  item: HistoryItem, 
-  onComplete: (grid: Grid) => void
-) => {
-  const canvas = document.createElement('canvas');
-  canvas.width = item.width;
-  canvas.height = item.height;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return;
-
-  const img = new Image();
-  img.src = item.dataUrl;
-  img.onload = () => {
-    ctx.drawImage(img, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const { data, width, height } = imageData;
-
-    const getLum = (idx: number) => (data[idx] + data[idx+1] + data[idx+2]);
-    
-    // Increased contrast threshold to ignore fainter noise/text
-    const CONTRAST_THRESH = 50;
-    // Increased minimum segment length to 3% of min dimension or 40px
-    // This aggressively filters out text underlines and small artifacts
-    const MIN_SEG_LEN = Math.max(40, Math.min(width, height) * 0.03);
-    
-    const GAP_TOLERANCE = 8;
-    const POS_TOLERANCE = 6;
-
-    // --- Horizontal Scan ---
-    const rawH: Segment[] = [];
-    let hId = 0;
-    for (let y = 1; y < height - 1; y++) {
-        let startX = -1;
-        for (let x = 0; x < width; x++) {
-            const idx = (y * width + x) * 4;
-            const idxUp = ((y - 1) * width + x) * 4;
-            const idxDown = ((y + 1) * width + x) * 4;
-            const lum = getLum(idx);
-            
-            // Basic edge detection
-            const isEdge = Math.abs(lum - getLum(idxUp)) > CONTRAST_THRESH || 
-                           Math.abs(lum - getLum(idxDown)) > CONTRAST_THRESH;
+const SETTINGS_STORAGE_KEY = 'smart-slice:detection-settings';
 
-            if (isEdge) {
-                if (startX === -1) startX = x;
-            } else {
-                if (startX !== -1) {
-                    if (x - startX > MIN_SEG_LEN) {
-                        rawH.push({ id: hId++, pos: y, start: startX, end: x, length: x - startX });
-                    }
-                    startX = -1;
-                }
-            }
-        }
-        if (startX !== -1 && width - startX > MIN_SEG_LEN) {
-           rawH.push({ id: hId++, pos: y, start: startX, end: width, length: width - startX });
-        }
+// Detection settings are remembered for the browser session only. A stale or edited entry
+// contributes only the fields that are still finite numbers; the rest come from the defaults.
+export const loadDetectionSettings = (): DetectionSettings => {
+  try {
+    const stored = sessionStorage.getItem(SETTINGS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed === 'object') {
+      const settings = { ...DEFAULT_DETECTION_SETTINGS };
+      (Object.keys(settings) as (keyof DetectionSettings)[]).forEach(key => {
+        const value = (parsed as Record<string, unknown>)[key];
+        if (typeof value === 'number' && Number.isFinite(value)) settings[key] = value;
+      });
+      return settings;
     }
+  } catch (err) {
+    console.warn('Could not restore detection settings:', err);
+  }
+  return DEFAULT_DETECTION_SETTINGS;
+};
 
-    // --- Vertical Scan ---
-    const rawV: Segment[] = [];
-    let vId = 0;
-    for (let x = 1; x < width - 1; x++) {
-        let startY = -1;
-        for (let y = 0; y < height; y++) {
-            const idx = (y * width + x) * 4;
-            const idxLeft = (y * width + (x - 1)) * 4;
-            const idxRight = (y * width + (x + 1)) * 4;
-            const lum = getLum(idx);
-            
-            const isEdge = Math.abs(lum - getLum(idxLeft)) > CONTRAST_THRESH || 
-                           Math.abs(lum - getLum(idxRight)) > CONTRAST_THRESH;
+export const saveDetectionSettings = (settings: DetectionSettings) => {
+  try {
+    sessionStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not save detection settings:', err);
+  }
+};
 
-            if (isEdge) {
-                if (startY === -1) startY = y;
-            } else {
-                if (startY !== -1) {
-                    if (y - startY > MIN_SEG_LEN) {
-                        rawV.push({ id: vId++, pos: x, start: startY, end: y, length: y - startY });
-                    }
-                    startY = -1;
-                }
-            }
-        }
-        if (startY !== -1 && height - startY > MIN_SEG_LEN) {
-            rawV.push({ id: vId++, pos: x, start: startY, end: height, length: height - startY });
-        }
-    }
+const DESKEW_STORAGE_KEY = 'smart-slice:auto-deskew';
 
-    // --- Cluster Segments ---
-    const clusterSegments = (items: Segment[], posKey: 'pos', startKey: 'start', endKey: 'end') => {
-        items.sort((a, b) => a[posKey] - b[posKey]);
-        const merged: Segment[] = [];
-        
-        let currentGroup: Segment[] = [];
-        if (items.length > 0) currentGroup.push(items[0]);
+// Straightening on load is off unless turned on, and remembered like the settings above
+export const loadAutoDeskew = (): boolean => {
+  try {
+    return sessionStorage.getItem(DESKEW_STORAGE_KEY) === 'true';
+  } catch (err) {
+    console.warn('Could not restore deskew setting:', err);
+  }
+  return false;
+};
 
-        const processGroup = (group: Segment[]) => {
-             const avgPos = Math.round(group.reduce((acc, i) => acc + i[posKey], 0) / group.length);
-             group.sort((a, b) => a[startKey] - b[startKey]);
-             
-             let curr = { ...group[0], pos: avgPos };
-             for (let i = 1; i < group.length; i++) {
-                 const next = group[i];
-                 if (next[startKey] <= curr[endKey] + GAP_TOLERANCE) {
-                     curr[endKey] = Math.max(curr[endKey], next[endKey]);
-                     curr.length = curr[endKey] - curr[startKey];
-                 } else {
-                     merged.push(curr);
-                     curr = { ...next, pos: avgPos };
-                 }
-             }
-             merged.push(curr);
-        };
+export const saveAutoDeskew = (enabled: boolean) => {
+  try {
+    sessionStorage.setItem(DESKEW_STORAGE_KEY, String(enabled));
+  } catch (err) {
+    console.warn('Could not save deskew setting:', err);
+  }
+};
 
-        for (let i = 1; i < items.length; i++) {
-            const item = items[i];
-            const prev = currentGroup[0];
-            if (Math.abs(item.pos - prev.pos) <= POS_TOLERANCE) {
-                currentGroup.push(item);
-            } else {
-                processGroup(currentGroup);
-                currentGroup = [item];
-            }
-        }
-        if (currentGroup.length > 0) processGroup(currentGroup);
-        return merged.map((m, i) => ({ ...m, id: i }));
-    };
+export interface DetectionJob {
+  promise: Promise<Grid>;
+  cancel: () => void;
+}
 
-    const hSegments = clusterSegments(rawH, 'pos', 'start', 'end');
-    const vSegments = clusterSegments(rawV, 'pos', 'start', 'end');
+// Decodes the image on the main thread (tile by tile, so images past the canvas limits
+// still decode), then hands the pixel buffer (transferred, not copied) to a dedicated
+// worker. Cancelling terminates the worker mid-scan and rejects the promise with an
+// AbortError; an image over MAX_IMAGE_PIXELS rejects with ImageTooLargeError.
+export const detectGrid = (
+  item: HistoryItem,
+  settings: DetectionSettings,
+  onProgress?: DetectionProgress
+): DetectionJob => {
+  let worker: Worker | null = null;
+  let cancelled = false;
+  let rejectJob: (reason: unknown) => void = () => {};
 
-    // Create Initial Grid (Full Lines)
-    const uniqueY = new Set<number>();
-    hSegments.forEach(s => uniqueY.add(s.pos));
-    const uniqueX = new Set<number>();
-    vSegments.forEach(s => uniqueX.add(s.pos));
+  const promise = new Promise<Grid>((resolve, reject) => {
+    rejectJob = reject;
 
-    const finalH: GridLine[] = Array.from(uniqueY).sort((a,b)=>a-b).map(y => ({
-        pos: y, thickness: 1, start: 0, end: width 
-    }));
-    const finalV: GridLine[] = Array.from(uniqueX).sort((a,b)=>a-b).map(x => ({
-        pos: x, thickness: 1, start: 0, end: height
-    }));
-    
-    // Ensure strict boundary lines
-    if (finalH.length === 0 || finalH[0].pos > 5) finalH.unshift({ pos: 0, thickness: 0, start: 0, end: width });
-    if (finalH.length > 0 && finalH[finalH.length-1].pos < height - 5) finalH.push({ pos: height, thickness: 0, start: 0, end: width });
+    loadPixelBuffer(item.dataUrl, item.width, item.height).then((image) => {
+      if (cancelled) return;
 
-    if (finalV.length === 0 || finalV[0].pos > 5) finalV.unshift({ pos: 0, thickness: 0, start: 0, end: height });
-    if (finalV.length > 0 && finalV[finalV.length-1].pos < width - 5) finalV.push({ pos: width, thickness: 0, start: 0, end: height });
+      worker = new Worker(new URL('./gridDetection.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<DetectionWorkerResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') {
+          onProgress?.(msg.progress);
+        } else {
+          resolve(msg.grid);
+          worker?.terminate();
+          worker = null;
+        }
+      };
+      worker.onerror = (e) => {
+        reject(new Error(e.message || 'Grid detection worker failed'));
+        worker?.terminate();
+        worker = null;
+      };
+
+      const request: DetectionWorkerRequest = { image, settings };
+      worker.postMessage(request, [image.data.buffer]);
+    }, reject);
+  });
 
-    onComplete({ horizontal: finalH, vertical: finalV });
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    worker?.terminate();
+    worker = null;
+    rejectJob(new DOMException('Grid detection cancelled', 'AbortError'));
   };
-};
\ No newline at end of file
+
+  return { promise, cancel };
+};
@@ -0,0 +1,10 @@
+import { scanGrid } from './gridCore';
+import { DetectionWorkerRequest, DetectionWorkerResponse } from '../types';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<DetectionWorkerRequest>) => {
+  const post = (msg: DetectionWorkerResponse) => ctx.postMessage(msg);
+  const grid = scanGrid(e.data.image, e.data.settings, (progress) => post({ type: 'progress', progress }));
+  post({ type: 'result', grid });
+};
@@ -1,5 +1,6 @@
 
 import { Grid, Rect, GridLine } from '../../../types';
+import { CellIndex, DraftLine, PixelBuffer, EraserHover, LineDrag, LineHandle } from '../types';
 
 export const performErase = (
     grid: Grid | null, 
@@ -68,8 +69,220 @@ export const performErase = (
     return { horizontal: newH, vertical: newV };
 };
 
-// Graph Traversal (Flood Fill) to find merged cells
-export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => {
+// Hit-test the line under the pointer. The returned segment is bounded by the
+// nearest perpendicular crossings (or the whole line when isWholeLine is set).
+export const findHoveredSegment = (
+    grid: Grid,
+    coords: {x: number, y: number},
+    scale: number,
+    isWholeLine: boolean
+): EraserHover | null => {
+    const threshold = 6 / scale;
+    let bestSeg: EraserHover | null = null;
+    let minDest = threshold;
+
+    const check = (type: 'horizontal'|'vertical') => {
+        const lines = type === 'horizontal' ? grid.horizontal : grid.vertical;
+        const perps = type === 'horizontal' ? grid.vertical : grid.horizontal;
+        const main = type === 'horizontal' ? coords.y : coords.x;
+        const cross = type === 'horizontal' ? coords.x : coords.y;
+
+        lines.forEach((l, i) => {
+            if (cross < l.start || cross > l.end) return;
+            const dist = Math.abs(main - l.pos);
+            if (dist < minDest) {
+                let s = l.start, e = l.end;
+                const crossings = perps.filter(p => p.start <= l.pos && p.end >= l.pos).map(p=>p.pos).sort((a,b)=>a-b);
+                for(const p of crossings) {
+                    if(p <= cross) s = Math.max(s, p);
+                    else if(p > cross) { e = Math.min(e, p); break; }
+                }
+                minDest = dist;
+                bestSeg = { type, lineIndex: i, start: s, end: e, isWholeLine };
+            }
+        });
+    }
+    check('horizontal');
+    check('vertical');
+    return bestSeg;
+};
+
+// Start a move-tool drag: grabbing near either end resizes, anywhere else moves the line
+export const beginLineDrag = (
+    grid: Grid,
+    coords: {x: number, y: number},
+    scale: number
+): LineDrag | null => {
+    const hit = findHoveredSegment(grid, coords, scale, true);
+    if (!hit) return null;
+
+    const line = (hit.type === 'horizontal' ? grid.horizontal : grid.vertical)[hit.lineIndex];
+    const cross = hit.type === 'horizontal' ? coords.x : coords.y;
+    const handleSize = 10 / scale;
+
+    let handle: LineHandle = 'pos';
+    if (Math.abs(cross - line.start) < handleSize) handle = 'start';
+    else if (Math.abs(cross - line.end) < handleSize) handle = 'end';
+
+    return { type: hit.type, lineIndex: hit.lineIndex, handle, origin: coords, original: { ...line } };
+};
+
+export const applyLineDrag = (
+    grid: Grid,
+    drag: LineDrag,
+    coords: {x: number, y: number},
+    imgW: number,
+    imgH: number
+): Grid => {
+    const isH = drag.type === 'horizontal';
+    const posLimit = isH ? imgH : imgW;
+    const crossLimit = isH ? imgW : imgH;
+    const clamp = (v: number, max: number) => Math.max(0, Math.min(max, Math.round(v)));
+    const { original } = drag;
+
+    const next = { ...original };
+    if (drag.handle === 'pos') {
+        const delta = isH ? coords.y - drag.origin.y : coords.x - drag.origin.x;
+        next.pos = clamp(original.pos + delta, posLimit);
+    } else {
+        const cross = clamp(isH ? coords.x : coords.y, crossLimit);
+        // Keep at least a couple of pixels so the line never inverts
+        if (drag.handle === 'start') next.start = Math.min(cross, original.end - 2);
+        else next.end = Math.max(cross, original.start + 2);
+    }
+
+    const key = isH ? 'horizontal' : 'vertical';
+    const lines = grid[key].map((l, i) => i === drag.lineIndex ? next : l);
+    return { ...grid, [key]: lines };
+};
+
+// Swap roles so row logic can be reused for columns (pairs with transposePixelBuffer)
+export const transposeGrid = (grid: Grid): Grid => ({ horizontal: grid.vertical, vertical: grid.horizontal });
+
+// Re-join same-orientation pieces that sit on one position and touch or overlap
+export const mergeCollinearLines = (lines: GridLine[]): GridLine[] => {
+    const sorted = [...lines].sort((a, b) => a.pos - b.pos || a.start - b.start);
+    const merged: GridLine[] = [];
+    sorted.forEach(l => {
+        const prev = merged[merged.length - 1];
+        if (prev && prev.pos === l.pos && l.start <= prev.end) {
+            prev.end = Math.max(prev.end, l.end);
+            prev.thickness = Math.max(prev.thickness, l.thickness);
+        } else {
+            merged.push({ ...l });
+        }
+    });
+    return merged;
+};
+
+export const sortGridLines = (grid: Grid): Grid => ({
+    horizontal: [...grid.horizontal].sort((a, b) => a.pos - b.pos || a.start - b.start),
+    vertical: [...grid.vertical].sort((a, b) => a.pos - b.pos || a.start - b.start)
+});
+
+// Find the strongest luminance edge within `radius` of `pos`, measured along [start, end).
+// Uses the same neighbour-contrast notion as scanGrid; returns `pos` unchanged when
+// nothing nearby looks like a border.
+export const snapToContentEdge = (
+    pixels: PixelBuffer,
+    type: 'horizontal' | 'vertical',
+    pos: number,
+    start: number,
+    end: number,
+    radius: number
+): number => {
+    const { data, width, height } = pixels;
+    const size = type === 'horizontal' ? height : width;
+    const crossSize = type === 'horizontal' ? width : height;
+    const s = Math.max(0, Math.floor(start));
+    const e = Math.min(crossSize, Math.ceil(end));
+    if (e - s < 1) return pos;
+
+    const lum = (main: number, cross: number) => {
+        const idx = type === 'horizontal' ? (main * width + cross) * 4 : (cross * width + main) * 4;
+        return data[idx] + data[idx+1] + data[idx+2];
+    };
+
+    const MIN_AVG_CONTRAST = 30;
+    let best = pos;
+    let bestScore = MIN_AVG_CONTRAST;
+    const r = Math.ceil(radius);
+
+    for (let p = Math.max(1, pos - r); p <= Math.min(size - 2, pos + r); p++) {
+        let score = 0;
+        for (let c = s; c < e; c++) {
+            const l = lum(p, c);
+            score += Math.max(Math.abs(l - lum(p - 1, c)), Math.abs(l - lum(p + 1, c)));
+        }
+        score /= (e - s);
+        // Prefer the closer candidate on ties
+        if (score > bestScore || (score === bestScore && Math.abs(p - pos) < Math.abs(best - pos))) {
+            bestScore = score;
+            best = p;
+        }
+    }
+    return best;
+};
+
+// Turn a pointer drag into a straight grid line along its dominant axis.
+// Endpoints snap to nearby perpendicular lines (or the image border) so the new
+// line closes cells in getActualCells; `pixels` enables snapping to content edges.
+export const createDraftLine = (
+    from: {x: number, y: number},
+    to: {x: number, y: number},
+    grid: Grid,
+    imgW: number,
+    imgH: number,
+    scale: number,
+    pixels: PixelBuffer | null
+): DraftLine | null => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < 10 / scale) return null;
+
+    const type = Math.abs(dx) >= Math.abs(dy) ? 'horizontal' : 'vertical';
+    const posLimit = type === 'horizontal' ? imgH : imgW;
+    const crossLimit = type === 'horizontal' ? imgW : imgH;
+    const clamp = (v: number, max: number) => Math.max(0, Math.min(max, Math.round(v)));
+
+    let pos = clamp(type === 'horizontal' ? from.y : from.x, posLimit);
+    let start = clamp(type === 'horizontal' ? Math.min(from.x, to.x) : Math.min(from.y, to.y), crossLimit);
+    let end = clamp(type === 'horizontal' ? Math.max(from.x, to.x) : Math.max(from.y, to.y), crossLimit);
+
+    if (pixels) pos = snapToContentEdge(pixels, type, pos, start, end, 8 / scale);
+
+    const threshold = 10 / scale;
+    const perpLines = type === 'horizontal' ? grid.vertical : grid.horizontal;
+    const stops = perpLines
+        .filter(p => p.start <= pos + 1 && p.end >= pos - 1)
+        .map(p => p.pos)
+        .concat([0, crossLimit]);
+
+    const snapEnd = (v: number) => {
+        let best = v;
+        let minDist = threshold;
+        for (const p of stops) {
+            const dist = Math.abs(p - v);
+            if (dist < minDist) { minDist = dist; best = p; }
+        }
+        return best;
+    };
+    start = snapEnd(start);
+    end = snapEnd(end);
+    if (end - start < 2) return null;
+
+    return { type, line: { pos, thickness: 1, start, end } };
+};
+
+export const addGridLine = (grid: Grid, draft: DraftLine): Grid => {
+    const key = draft.type === 'horizontal' ? 'horizontal' : 'vertical';
+    const lines = [...grid[key], draft.line].sort((a, b) => a.pos - b.pos || a.start - b.start);
+    return { ...grid, [key]: lines };
+};
+
+// Graph Traversal (Flood Fill) to find merged cells. Also returns the lattice and, per atomic
+// block (row-major), the index of the cell that covers it.
+const floodCells = (grid: Grid, w: number, h: number) => {
     // 1. Build lattice points from all line positions
     const ys = Array.from(new Set(grid.horizontal.map(l => l.pos).concat([0, h]))).sort((a,b)=>a-b);
     const xs = Array.from(new Set(grid.vertical.map(l => l.pos).concat([0, w]))).sort((a,b)=>a-b);
@@ -80,6 +293,8 @@ export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => {
 
     const visited = new Set<string>();
     const cells: Rect[] = [];
+    const cols = Math.max(0, u_xs.length - 1);
+    const blockCell = new Int32Array(cols * Math.max(0, u_ys.length - 1));
 
     // 2. Iterate every "atomic" block in the lattice
     for (let r = 0; r < u_ys.length - 1; r++) {
@@ -92,6 +307,8 @@ export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => {
             let minY = u_ys[r], maxY = u_ys[r+1];
             
             const queue = [{c, r}];
+            const blocks: Rect[] = [];
+            const members: number[] = []; // Lattice index of each block
             visited.add(key);
 
             while(queue.length > 0) {
@@ -102,6 +319,8 @@ export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => {
                 
                 minX = Math.min(minX, cx1); maxX = Math.max(maxX, cx2);
                 minY = Math.min(minY, cy1); maxY = Math.max(maxY, cy2);
+                blocks.push({ x: cx1, y: cy1, w: cx2 - cx1, h: cy2 - cy1 });
+                members.push(curr.r * cols + curr.c);
 
                 // Define 4 neighbors
                 const neighbors = [
@@ -143,8 +362,52 @@ export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => {
                 }
             }
 
-            cells.push({ x: minX, y: minY, w: maxX - minX, h: maxY - minY });
+            // A merged cell is always a rectangle. Regions that aren't (e.g. the margin
+            // wrapping around a table whose borders don't reach the image edge) fall back
+            // to their atomic blocks so no "cell" covers content it doesn't contain.
+            const area = blocks.reduce((acc, b) => acc + b.w * b.h, 0);
+            if (area === (maxX - minX) * (maxY - minY)) {
+                members.forEach(m => { blockCell[m] = cells.length; });
+                cells.push({ x: minX, y: minY, w: maxX - minX, h: maxY - minY });
+            } else {
+                members.forEach((m, k) => { blockCell[m] = cells.length + k; });
+                cells.push(...blocks);
+            }
         }
     }
-    return cells;
+    return { cells, xs: u_xs, ys: u_ys, blockCell };
+};
+
+export const getActualCells = (grid: Grid, w: number, h: number): Rect[] => floodCells(grid, w, h).cells;
+
+// Lattice slots whose closed span [v[i], v[i+1]] contains `p` (two when `p` sits on a line)
+const findSlots = (v: number[], p: number): number[] => {
+    let lo = 0, hi = v.length - 1;
+    if (hi < 1 || p < v[0] || p > v[hi]) return [];
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (v[mid] <= p) lo = mid; else hi = mid;
+    }
+    const slots = [lo];
+    if (p === v[lo] && lo > 0) slots.unshift(lo - 1);
+    if (p === v[lo + 1] && lo + 2 < v.length) slots.push(lo + 1);
+    return slots;
+};
+
+// Cells plus an O(log n) point lookup through the lattice. On a shared edge the cell listed
+// first wins, exactly like scanning getActualCells with inclusive bounds.
+export const createCellIndex = (grid: Grid, w: number, h: number): CellIndex => {
+    const { cells, xs, ys, blockCell } = floodCells(grid, w, h);
+    const cols = xs.length - 1;
+
+    const cellAt = (x: number, y: number): Rect | null => {
+        let best = -1;
+        findSlots(ys, y).forEach(r => findSlots(xs, x).forEach(c => {
+            const idx = blockCell[r * cols + c];
+            if (best === -1 || idx < best) best = idx;
+        }));
+        return best === -1 ? null : cells[best];
+    };
+
+    return { cells, cellAt };
 };
@@ -0,0 +1,98 @@
+import { Grid, GridLine } from '../../../types';
+import { InsertSettings, PixelBuffer } from '../types';
+import { PixelCropResult, expandGrid } from './cropCore';
+import { createPixelBuffer, getDominantColor, parseHexColor } from './pixelBuffer';
+
+// Inserting space: the complement of cropping. `amount` rows (horizontal) or columns (vertical)
+// are added at `pos` and filled with one colour; grid lines past the insertion move on and
+// lines crossing it are stretched over it (expandGrid), with their strokes painted through.
+
+export const DEFAULT_INSERT_SETTINGS: InsertSettings = {
+    axis: 'horizontal',
+    amount: 20,
+    color: null
+};
+
+// How far either side of the insertion the background is sampled
+const SAMPLE_RADIUS = 8;
+
+// Upper bound for one insertion, so a typo in the amount cannot allocate a gigantic buffer
+export const MAX_INSERT_AMOUNT = 4000;
+
+// Clicking on (or just beside) a line inserts past its stroke, so the border stays in one piece;
+// anywhere else inserts exactly at the pointer, e.g. inside a cell to give it more room.
+export const getInsertPosition = (
+    grid: Grid | null,
+    axis: 'horizontal' | 'vertical',
+    coord: number,
+    size: number,
+    scale: number
+): number => {
+    const lines: GridLine[] = grid ? grid[axis] : [];
+    const near = lines.find(l => Math.abs(l.pos - coord) <= Math.max(l.thickness / 2, 6 / scale));
+    const pos = near ? near.pos + Math.ceil(near.thickness / 2) : coord;
+    return Math.max(0, Math.min(size, Math.round(pos)));
+};
+
+export const insertSpacePixels = (
+    image: PixelBuffer,
+    settings: InsertSettings,
+    pos: number,
+    grid: Grid | null
+): PixelCropResult => {
+    const { width, height, data } = image;
+    const isRows = settings.axis === 'horizontal';
+    const amount = Math.max(0, Math.min(MAX_INSERT_AMOUNT, Math.round(settings.amount)));
+    const at = Math.max(0, Math.min(isRows ? height : width, Math.round(pos)));
+
+    const sample = isRows
+        ? { x: 0, y: at - SAMPLE_RADIUS, w: width, h: SAMPLE_RADIUS * 2 }
+        : { x: at - SAMPLE_RADIUS, y: 0, w: SAMPLE_RADIUS * 2, h: height };
+    const [r, g, b, a] = (settings.color && parseHexColor(settings.color)) || getDominantColor(image, sample);
+
+    const out = createPixelBuffer(isRows ? width : width + amount, isRows ? height + amount : height);
+    for (let y = 0; y < out.height; y++) {
+        for (let x = 0; x < out.width; x++) {
+            const inside = isRows ? y >= at && y < at + amount : x >= at && x < at + amount;
+            const di = (y * out.width + x) * 4;
+            if (inside) {
+                out.data[di] = r; out.data[di+1] = g; out.data[di+2] = b; out.data[di+3] = a;
+                continue;
+            }
+            const sx = !isRows && x >= at ? x - amount : x;
+            const sy = isRows && y >= at ? y - amount : y;
+            const si = (sy * width + sx) * 4;
+            out.data[di] = data[si]; out.data[di+1] = data[si+1]; out.data[di+2] = data[si+2]; out.data[di+3] = data[si+3];
+        }
+    }
+
+    if (!grid) return { image: out };
+
+    // Lines crossing the insertion (the same ones expandGrid stretches) carry on through it,
+    // so a border inside a table is not cut by the new space
+    const crossing = (isRows ? grid.vertical : grid.horizontal).filter(l => l.start < at && l.end >= at);
+    crossing.forEach(l => {
+        const t = Math.max(1, Math.round(l.thickness));
+        const c0 = Math.max(0, Math.round(l.pos - t / 2));
+        const c1 = Math.min(isRows ? width : height, c0 + t);
+        if (c1 <= c0) return;
+        const s0 = Math.max(0, Math.round(l.start), at - SAMPLE_RADIUS);
+        const s1 = Math.min(isRows ? height : width, Math.round(l.end), at + SAMPLE_RADIUS);
+        const [lr, lg, lb, la] = isRows
+            ? getDominantColor(image, { x: c0, y: s0, w: c1 - c0, h: s1 - s0 })
+            : getDominantColor(image, { x: s0, y: c0, w: s1 - s0, h: c1 - c0 });
+
+        for (let p = at; p < at + amount; p++) {
+            for (let c = c0; c < c1; c++) {
+                const di = isRows ? (p * out.width + c) * 4 : (c * out.width + p) * 4;
+                out.data[di] = lr; out.data[di+1] = lg; out.data[di+2] = lb; out.data[di+3] = la;
+            }
+        }
+    });
+
+    const inserted = [{ start: at, end: at + amount }];
+    return {
+        image: out,
+        grid: isRows ? expandGrid(grid, [], inserted) : expandGrid(grid, inserted, [])
+    };
+};
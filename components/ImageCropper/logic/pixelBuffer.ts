@@ -0,0 +1,74 @@
+import { Rect } from '../../../types';
+import { PixelBuffer } from '../types';
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4)
+});
+
+export const clonePixelBuffer = (src: PixelBuffer): PixelBuffer => ({
+  width: src.width,
+  height: src.height,
+  data: new Uint8ClampedArray(src.data)
+});
+
+// Swap rows and columns, so column-wise work can reuse row-wise code
+export const transposePixelBuffer = (src: PixelBuffer): PixelBuffer => {
+  const out = createPixelBuffer(src.height, src.width);
+  for (let y = 0; y < src.height; y++) {
+    for (let x = 0; x < src.width; x++) {
+      const si = (y * src.width + x) * 4;
+      const di = (x * out.width + y) * 4;
+      out.data[di] = src.data[si];
+      out.data[di+1] = src.data[si+1];
+      out.data[di+2] = src.data[si+2];
+      out.data[di+3] = src.data[si+3];
+    }
+  }
+  return out;
+};
+
+// Copy `src` into `dest` at (dx, dy) unscaled, clipped to dest bounds
+export const pasteBuffer = (src: PixelBuffer, dest: PixelBuffer, dx: number, dy: number) => {
+  const x0 = Math.max(0, dx);
+  const x1 = Math.min(dest.width, dx + src.width);
+  if (x1 <= x0) return;
+  for (let y = Math.max(0, dy); y < Math.min(dest.height, dy + src.height); y++) {
+    const si = ((y - dy) * src.width + (x0 - dx)) * 4;
+    dest.data.set(src.data.subarray(si, si + (x1 - x0) * 4), (y * dest.width + x0) * 4);
+  }
+};
+
+// Most common colour in `rect` (quantised to 5 bits per channel, averaged within the winning bin).
+// Used as the background when padding or filling freed space.
+export const getDominantColor = (image: PixelBuffer, rect: Rect): [number, number, number, number] => {
+  const bins = new Map<number, { count: number, r: number, g: number, b: number, a: number }>();
+  const { data, width } = image;
+  const x0 = Math.max(0, rect.x), x1 = Math.min(width, rect.x + rect.w);
+  const y0 = Math.max(0, rect.y), y1 = Math.min(image.height, rect.y + rect.h);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      const key = ((data[i] >> 3) << 10) | ((data[i+1] >> 3) << 5) | (data[i+2] >> 3);
+      const bin = bins.get(key) || { count: 0, r: 0, g: 0, b: 0, a: 0 };
+      bin.count++; bin.r += data[i]; bin.g += data[i+1]; bin.b += data[i+2]; bin.a += data[i+3];
+      bins.set(key, bin);
+    }
+  }
+  let best: { count: number, r: number, g: number, b: number, a: number } | null = null;
+  for (const bin of bins.values()) {
+    if (!best || bin.count > best.count) best = bin;
+  }
+  if (!best) return [255, 255, 255, 255];
+  const { count, r, g, b, a } = best;
+  return [r / count, g / count, b / count, a / count];
+};
+
+// '#rrggbb' -> opaque RGBA; null for anything else
+export const parseHexColor = (hex: string): [number, number, number, number] | null => {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!m) return null;
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255, 255];
+};
@@ -0,0 +1,46 @@
+// PNG container pieces shared by the CLI codec (cli/png.ts) and the browser's streaming encoder.
+// Both always write 8-bit RGBA, non-interlaced.
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC of the concatenation of `parts`, without concatenating them
+export const crc32 = (...parts: Uint8Array[]) => {
+  let c = 0xffffffff;
+  parts.forEach(buf => {
+    for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  });
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Length, type, data and CRC of one chunk
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  const name = new Uint8Array([...type].map(ch => ch.charCodeAt(0)));
+  view.setUint32(0, data.length);
+  out.set(name, 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(name, data));
+  return out;
+};
+
+// IHDR payload for an 8-bit RGBA image (deflate, adaptive filtering, no interlace)
+export const pngHeader = (width: number, height: number): Uint8Array => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+  return header;
+};
@@ -0,0 +1,49 @@
+import { PixelBuffer } from '../types';
+import { PNG_SIGNATURE, pngChunk, pngHeader } from './pngChunks';
+
+// Streaming PNG encoder for results too large for a canvas' toDataURL. Rows are filtered
+// and fed to a CompressionStream a band at a time, and each compressed chunk becomes its own
+// IDAT chunk, so besides the PixelBuffer only one band is ever held uncompressed. Chunk framing is shared with the
+// CLI's encoder (pngChunks.ts).
+
+const BAND_ROWS = 256;
+
+// 'Up' filter on every row: cheap, and long runs of identical rows (table backgrounds) collapse to zeros
+const filterBand = (image: PixelBuffer, y0: number, y1: number): Uint8Array => {
+  const { width, data } = image;
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * (y1 - y0));
+  for (let y = y0; y < y1; y++) {
+    const dst = (y - y0) * (stride + 1);
+    const row = y * stride;
+    out[dst] = 2;
+    for (let x = 0; x < stride; x++) {
+      out[dst + 1 + x] = data[row + x] - (y > 0 ? data[row - stride + x] : 0);
+    }
+  }
+  return out;
+};
+
+export const encodePngBlob = async (image: PixelBuffer): Promise<Blob> => {
+  const { width, height } = image;
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const feed = (async () => {
+    for (let y = 0; y < height; y += BAND_ROWS) {
+      await writer.write(filterBand(image, y, Math.min(height, y + BAND_ROWS)));
+    }
+    await writer.close();
+  })();
+
+  const parts: BlobPart[] = [PNG_SIGNATURE, pngChunk('IHDR', pngHeader(width, height))];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(pngChunk('IDAT', value));
+  }
+  await feed;
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+
+  return new Blob(parts, { type: 'image/png' });
+};
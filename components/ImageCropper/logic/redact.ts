@@ -0,0 +1,148 @@
+import { Grid, GridLine, Rect } from '../../../types';
+import { PixelBuffer, RedactSettings } from '../types';
+import { PixelCropResult } from './cropCore';
+import { getActualCells } from './gridManipulation';
+import { clonePixelBuffer, getDominantColor, parseHexColor } from './pixelBuffer';
+import { normalizeRect } from './selectionEditing';
+
+// Redaction: selections are blanked, blurred or pixelated in place. The image and grid keep
+// their shape; with a grid, each selection is clipped to the interiors of the cells it covers
+// so the borders between them are left untouched.
+
+export const DEFAULT_REDACT_SETTINGS: RedactSettings = {
+    style: 'pixelate',
+    strength: 10,
+    color: null
+};
+
+// Half the stroke (plus 1px of anti-aliasing) of the line running along a cell edge, if any
+const getEdgeInset = (lines: GridLine[], pos: number, start: number, end: number) => {
+    const line = lines.find(l => Math.abs(l.pos - pos) < 2 && l.start < end && l.end > start);
+    return line ? Math.ceil(line.thickness / 2) + 1 : 0;
+};
+
+const getCellInterior = (cell: Rect, grid: Grid): Rect => {
+    const left = cell.x + getEdgeInset(grid.vertical, cell.x, cell.y, cell.y + cell.h);
+    const right = cell.x + cell.w - getEdgeInset(grid.vertical, cell.x + cell.w, cell.y, cell.y + cell.h);
+    const top = cell.y + getEdgeInset(grid.horizontal, cell.y, cell.x, cell.x + cell.w);
+    const bottom = cell.y + cell.h - getEdgeInset(grid.horizontal, cell.y + cell.h, cell.x, cell.x + cell.w);
+    return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+// Whole-pixel intersection, or null when empty
+const intersect = (a: Rect, b: Rect): Rect | null => {
+    const x0 = Math.ceil(Math.max(a.x, b.x));
+    const y0 = Math.ceil(Math.max(a.y, b.y));
+    const x1 = Math.floor(Math.min(a.x + a.w, b.x + b.w));
+    const y1 = Math.floor(Math.min(a.y + a.h, b.y + b.h));
+    return x1 > x0 && y1 > y0 ? { x: x0, y: y0, w: x1 - x0, h: y1 - y0 } : null;
+};
+
+export const getRedactRegions = (selections: Rect[], grid: Grid | null, imgW: number, imgH: number): Rect[] => {
+    const bounds = { x: 0, y: 0, w: imgW, h: imgH };
+    const areas = grid
+        ? getActualCells(grid, imgW, imgH).map(c => getCellInterior(c, grid))
+        : [bounds];
+
+    const regions: Rect[] = [];
+    selections.forEach(s => {
+        const rect = normalizeRect(s);
+        areas.forEach(area => {
+            const hit = intersect(rect, area);
+            const clipped = hit && intersect(hit, bounds);
+            if (clipped) regions.push(clipped);
+        });
+    });
+    return regions;
+};
+
+const fillRegion = (image: PixelBuffer, r: Rect, color: [number, number, number, number]) => {
+    const { data, width } = image;
+    for (let y = r.y; y < r.y + r.h; y++) {
+        for (let x = r.x; x < r.x + r.w; x++) {
+            const i = (y * width + x) * 4;
+            data[i] = color[0]; data[i+1] = color[1]; data[i+2] = color[2]; data[i+3] = color[3];
+        }
+    }
+};
+
+// Average each block, anchored at the region's top-left so mosaics line up within a cell
+const pixelateRegion = (image: PixelBuffer, r: Rect, block: number) => {
+    const { data, width } = image;
+    for (let by = r.y; by < r.y + r.h; by += block) {
+        for (let bx = r.x; bx < r.x + r.w; bx += block) {
+            const ex = Math.min(bx + block, r.x + r.w);
+            const ey = Math.min(by + block, r.y + r.h);
+            const sum = [0, 0, 0, 0];
+            for (let y = by; y < ey; y++) {
+                for (let x = bx; x < ex; x++) {
+                    const i = (y * width + x) * 4;
+                    sum[0] += data[i]; sum[1] += data[i+1]; sum[2] += data[i+2]; sum[3] += data[i+3];
+                }
+            }
+            const n = (ex - bx) * (ey - by);
+            fillRegion(image, { x: bx, y: by, w: ex - bx, h: ey - by }, [sum[0] / n, sum[1] / n, sum[2] / n, sum[3] / n]);
+        }
+    }
+};
+
+// Separable Gaussian (sigma = radius / 2). Samples are clamped to the region, so nothing
+// outside it (borders, neighbouring cells) bleeds in.
+const blurRegion = (image: PixelBuffer, r: Rect, radius: number) => {
+    const sigma = Math.max(0.5, radius / 2);
+    const kernel: number[] = [];
+    let total = 0;
+    for (let k = -radius; k <= radius; k++) {
+        const w = Math.exp(-(k * k) / (2 * sigma * sigma));
+        kernel.push(w);
+        total += w;
+    }
+    const weights = kernel.map(w => w / total);
+
+    const { data, width } = image;
+    const pass = (horizontal: boolean) => {
+        const len = horizontal ? r.w : r.h;
+        const line = new Float32Array(len * 4);
+        const lineCount = horizontal ? r.h : r.w;
+        for (let j = 0; j < lineCount; j++) {
+            const index = (t: number) => horizontal
+                ? ((r.y + j) * width + r.x + t) * 4
+                : ((r.y + t) * width + r.x + j) * 4;
+            for (let t = 0; t < len; t++) {
+                const i = index(t);
+                line[t*4] = data[i]; line[t*4+1] = data[i+1]; line[t*4+2] = data[i+2]; line[t*4+3] = data[i+3];
+            }
+            for (let t = 0; t < len; t++) {
+                let cr = 0, cg = 0, cb = 0, ca = 0;
+                for (let k = -radius; k <= radius; k++) {
+                    const s = Math.max(0, Math.min(len - 1, t + k)) * 4;
+                    const w = weights[k + radius];
+                    cr += line[s] * w; cg += line[s+1] * w; cb += line[s+2] * w; ca += line[s+3] * w;
+                }
+                const i = index(t);
+                data[i] = cr; data[i+1] = cg; data[i+2] = cb; data[i+3] = ca;
+            }
+        }
+    };
+    pass(true);
+    pass(false);
+};
+
+export const redactPixels = (
+    image: PixelBuffer,
+    selections: Rect[],
+    settings: RedactSettings,
+    grid: Grid | null
+): PixelCropResult => {
+    const out = clonePixelBuffer(image);
+    const strength = Math.max(1, Math.round(settings.strength));
+    const color = settings.color ? parseHexColor(settings.color) : null;
+
+    getRedactRegions(selections, grid, image.width, image.height).forEach(r => {
+        if (settings.style === 'fill') fillRegion(out, r, color ?? getDominantColor(image, r));
+        else if (settings.style === 'pixelate') pixelateRegion(out, r, strength);
+        else blurRegion(out, r, strength);
+    });
+
+    return { image: out, grid: grid ?? undefined };
+};
@@ -0,0 +1,124 @@
+import { Grid, GridLine } from '../../../types';
+import { PixelBuffer, ReorderDrag } from '../types';
+import { PixelCropResult, Range } from './cropCore';
+import { createPixelBuffer, transposePixelBuffer } from './pixelBuffer';
+import { mergeCollinearLines, transposeGrid } from './gridManipulation';
+
+// Row/column reordering: the band [start, end) between two grid lines is lifted out and
+// re-inserted at another line position. The image keeps its size; every pixel run keeps its
+// content and only moves along the axis. Columns run through the row code transposed.
+
+interface Move {
+    src: Range;
+    dest: number;
+}
+
+// Where each source run lands. `target` is the insertion point in source coordinates,
+// outside the band (target <= start moves it up/left, target >= end moves it down/right).
+const getMoves = (size: number, band: Range, target: number): Move[] => {
+    const { start, end } = band;
+    const len = end - start;
+    const moves = target <= start
+        ? [
+            { src: { start: 0, end: target }, dest: 0 },
+            { src: band, dest: target },
+            { src: { start: target, end: start }, dest: target + len },
+            { src: { start: end, end: size }, dest: end }
+        ]
+        : [
+            { src: { start: 0, end: start }, dest: 0 },
+            { src: { start: end, end: target }, dest: start },
+            { src: band, dest: target - len },
+            { src: { start: target, end: size }, dest: target }
+        ];
+    return moves.filter(m => m.src.end > m.src.start);
+};
+
+// A point moves with the run that starts at or contains it; the far image edge stays put
+const mapPoint = (v: number, moves: Move[]) => {
+    const m = moves.find(m => v >= m.src.start && v < m.src.end);
+    return m ? m.dest + (v - m.src.start) : v;
+};
+
+// A span across the axis is cut into the pieces each run carries, then re-joined where they meet
+const mapSpan = (line: GridLine, moves: Move[]): GridLine[] => {
+    const pieces: GridLine[] = [];
+    moves.forEach(({ src, dest }) => {
+        const start = Math.max(line.start, src.start);
+        const end = Math.min(line.end, src.end);
+        if (end > start) pieces.push({ ...line, start: dest + (start - src.start), end: dest + (end - src.start) });
+    });
+    return pieces;
+};
+
+const moveRows = (image: PixelBuffer, band: Range, target: number, grid: Grid | null): PixelCropResult => {
+    const { width, height } = image;
+    const moves = getMoves(height, band, target);
+
+    const out = createPixelBuffer(width, height);
+    const rowBytes = width * 4;
+    moves.forEach(({ src, dest }) => {
+        out.data.set(image.data.subarray(src.start * rowBytes, src.end * rowBytes), dest * rowBytes);
+    });
+
+    if (!grid) return { image: out };
+
+    // A band moved to or from an image edge needs a border where that edge used to be:
+    // stand in a full-width line for each edge without one, then drop whatever lands on an edge
+    const thickness = grid.horizontal.find(l => Math.round(l.pos) === band.start || Math.round(l.pos) === band.end)?.thickness ?? 1;
+    const edges = [0, height]
+        .filter(pos => !grid.horizontal.some(l => Math.round(l.pos) === pos))
+        .map(pos => ({ pos, start: 0, end: width, thickness }));
+    const horizontal = [...grid.horizontal, ...edges]
+        .map(l => ({ ...l, pos: mapPoint(l.pos, moves) }))
+        .filter(l => l.pos > 0 && l.pos < height);
+
+    return {
+        image: out,
+        grid: {
+            horizontal: mergeCollinearLines(horizontal),
+            vertical: mergeCollinearLines(grid.vertical.flatMap(l => mapSpan(l, moves)))
+        }
+    };
+};
+
+// Line positions a band can be dropped on: the image edges plus every line of that orientation
+export const getReorderTargets = (grid: Grid, axis: 'horizontal' | 'vertical', size: number): number[] => {
+    const positions = grid[axis].map(l => Math.round(l.pos)).concat([0, size]);
+    return Array.from(new Set(positions)).filter(p => p >= 0 && p <= size).sort((a, b) => a - b);
+};
+
+// The rows (or columns) covered by the cell a reorder drag started on
+export const getReorderBand = (drag: ReorderDrag): Range | null => {
+    if (!drag.axis) return null;
+    const { anchor } = drag;
+    return drag.axis === 'horizontal'
+        ? { start: Math.round(anchor.y), end: Math.round(anchor.y + anchor.h) }
+        : { start: Math.round(anchor.x), end: Math.round(anchor.x + anchor.w) };
+};
+
+// Nearest drop position to the pointer, never inside the band being moved
+export const findReorderTarget = (targets: number[], band: Range, pos: number): number | null => {
+    let best: number | null = null;
+    targets.forEach(t => {
+        if (t > band.start && t < band.end) return;
+        if (best === null || Math.abs(t - pos) < Math.abs(best - pos)) best = t;
+    });
+    return best;
+};
+
+export const reorderPixels = (
+    image: PixelBuffer,
+    axis: 'horizontal' | 'vertical',
+    band: Range,
+    target: number,
+    grid: Grid | null
+): PixelCropResult => {
+    if (axis === 'horizontal') return moveRows(image, band, target, grid);
+
+    const res = moveRows(transposePixelBuffer(image), band, target, grid && transposeGrid(grid));
+    return {
+        image: transposePixelBuffer(res.image),
+        grid: res.grid && transposeGrid(res.grid)
+    };
+};
@@ -0,0 +1,139 @@
+import { ResampleFilter } from '../../../types';
+import { PixelBuffer } from '../types';
+
+// One-axis resampling for squished segments. Destination ranges are always whole
+// pixels (see layoutOperations in cropCore.ts), so there is no partial coverage to
+// blend and unscaled segments are copied bit-for-bit.
+
+const LANCZOS_LOBES = 3;
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const lanczos = (x: number) => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0);
+
+interface Taps {
+  index: Int32Array;   // Source pixel (main axis) of each tap
+  weight: Float32Array;
+}
+
+// Filter taps for destination pixel `d` of a `srcLen` -> `destLen` mapping
+const getTaps = (filter: ResampleFilter, srcStart: number, srcLen: number, destLen: number, d: number): Taps => {
+  const ratio = srcLen / destLen;
+  const srcLast = srcStart + srcLen - 1;
+  const clamp = (i: number) => Math.min(srcLast, Math.max(srcStart, i));
+
+  if (filter === 'nearest') {
+    return {
+      index: Int32Array.of(clamp(srcStart + Math.floor((d + 0.5) * ratio))),
+      weight: Float32Array.of(1)
+    };
+  }
+
+  if (filter === 'box') {
+    // Area average over the source interval covered by this dest pixel
+    const from = d * ratio;
+    const to = Math.max(from + 1e-6, (d + 1) * ratio);
+    const first = Math.floor(from);
+    const last = Math.min(srcLen - 1, Math.ceil(to) - 1);
+    const count = Math.max(1, last - first + 1);
+    const index = new Int32Array(count);
+    const weight = new Float32Array(count);
+    for (let k = 0; k < count; k++) {
+      const s = first + k;
+      index[k] = clamp(srcStart + s);
+      weight[k] = Math.max(0, Math.min(s + 1, to) - Math.max(s, from));
+    }
+    return { index, weight };
+  }
+
+  // Lanczos: widen the kernel when shrinking so it also acts as the low-pass filter
+  const scale = Math.max(1, ratio);
+  const center = (d + 0.5) * ratio - 0.5;
+  const first = Math.ceil(center - LANCZOS_LOBES * scale);
+  const last = Math.floor(center + LANCZOS_LOBES * scale);
+  const count = last - first + 1;
+  const index = new Int32Array(count);
+  const weight = new Float32Array(count);
+  for (let k = 0; k < count; k++) {
+    const s = first + k;
+    index[k] = clamp(srcStart + s);
+    weight[k] = lanczos((s - center) / scale);
+  }
+  return { index, weight };
+};
+
+// Copy a band of `src` into `dest`, resampling it along one axis only.
+// axis 'y': the band spans columns [crossStart, crossEnd) and rows [srcStart, srcStart + srcLen)
+//           are written to rows [destStart, destStart + destLen).
+// axis 'x': same with rows and columns swapped.
+// Taps are clamped to the source range, so a segment never bleeds into its neighbours.
+export const resampleBand = (
+  src: PixelBuffer,
+  dest: PixelBuffer,
+  axis: 'x' | 'y',
+  crossStart: number,
+  crossEnd: number,
+  srcStart: number,
+  srcLen: number,
+  destStart: number,
+  destLen: number,
+  filter: ResampleFilter
+) => {
+  if (srcLen <= 0 || destLen <= 0) return;
+
+  const destLimit = axis === 'y' ? dest.height : dest.width;
+  const crossLimit = axis === 'y' ? Math.min(src.width, dest.width) : Math.min(src.height, dest.height);
+  const c0 = Math.max(0, crossStart);
+  const c1 = Math.min(crossLimit, crossEnd);
+  const sd = src.data;
+  const dd = dest.data;
+
+  const srcIndex = (main: number, cross: number) =>
+    axis === 'y' ? (main * src.width + cross) * 4 : (cross * src.width + main) * 4;
+  const destIndex = (main: number, cross: number) =>
+    axis === 'y' ? (main * dest.width + cross) * 4 : (cross * dest.width + main) * 4;
+
+  for (let d = 0; d < destLen; d++) {
+    const dm = destStart + d;
+    if (dm < 0 || dm >= destLimit) continue;
+
+    // Same size: plain copy, whatever the filter
+    if (srcLen === destLen) {
+      for (let c = c0; c < c1; c++) {
+        const si = srcIndex(srcStart + d, c);
+        const di = destIndex(dm, c);
+        dd[di] = sd[si]; dd[di+1] = sd[si+1]; dd[di+2] = sd[si+2]; dd[di+3] = sd[si+3];
+      }
+      continue;
+    }
+
+    const { index, weight } = getTaps(filter, srcStart, srcLen, destLen, d);
+    for (let c = c0; c < c1; c++) {
+      // Accumulate in premultiplied alpha so transparent pixels don't darken edges
+      let r = 0, g = 0, b = 0, a = 0, wSum = 0;
+      for (let k = 0; k < index.length; k++) {
+        const si = srcIndex(index[k], c);
+        const w = weight[k];
+        const wa = w * sd[si+3];
+        r += sd[si] * wa;
+        g += sd[si+1] * wa;
+        b += sd[si+2] * wa;
+        a += wa;
+        wSum += w;
+      }
+      const di = destIndex(dm, c);
+      if (a <= 0 || wSum <= 0) {
+        dd[di] = dd[di+1] = dd[di+2] = dd[di+3] = 0;
+        continue;
+      }
+      dd[di] = r / a;
+      dd[di+1] = g / a;
+      dd[di+2] = b / a;
+      dd[di+3] = a / wSum;
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { PixelBuffer } from '../types';
+import { createPixelBuffer, transposePixelBuffer } from './pixelBuffer';
+
+// Content-aware shrinking: repeatedly remove the lowest-energy 8-connected path.
+// Used by the 'seam' smart strategy to absorb a cell's cut quota without the
+// uniform distortion of squishing.
+
+// Gradient energy of one pixel: |left - right| + |up - down| summed over RGB, clamped at the edges
+const pixelEnergy = (img: PixelBuffer, x: number, y: number): number => {
+  const { data, width, height } = img;
+  const l = (y * width + Math.max(0, x - 1)) * 4;
+  const r = (y * width + Math.min(width - 1, x + 1)) * 4;
+  const u = (Math.max(0, y - 1) * width + x) * 4;
+  const d = (Math.min(height - 1, y + 1) * width + x) * 4;
+  return Math.abs(data[l] - data[r]) + Math.abs(data[l+1] - data[r+1]) + Math.abs(data[l+2] - data[r+2]) +
+    Math.abs(data[u] - data[d]) + Math.abs(data[u+1] - data[d+1]) + Math.abs(data[u+2] - data[d+2]);
+};
+
+const computeEnergy = (img: PixelBuffer): Float32Array => {
+  const { width, height } = img;
+  const energy = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) energy[y * width + x] = pixelEnergy(img, x, y);
+  }
+  return energy;
+};
+
+// Remove one vertical seam (one pixel per row) from `img` and its energy map, returning both 1px
+// narrower. Only pixels next to the seam change neighbours (seams are 8-connected, so each row's cut
+// is within one column of the rows above and below), and only those get their energy recomputed.
+const removeVerticalSeam = (img: PixelBuffer, energy: Float32Array): { image: PixelBuffer, energy: Float32Array } => {
+  const { data, width, height } = img;
+  const cost = new Float32Array(width * height);
+  cost.set(energy.subarray(0, width));
+
+  for (let y = 1; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const prev = (y - 1) * width;
+      let best = cost[prev + x];
+      if (x > 0) best = Math.min(best, cost[prev + x - 1]);
+      if (x < width - 1) best = Math.min(best, cost[prev + x + 1]);
+      cost[y * width + x] = energy[y * width + x] + best;
+    }
+  }
+
+  // Backtrack from the cheapest bottom pixel
+  const seam = new Int32Array(height);
+  let seamX = 0;
+  const last = (height - 1) * width;
+  for (let x = 1; x < width; x++) {
+    if (cost[last + x] < cost[last + seamX]) seamX = x;
+  }
+  seam[height - 1] = seamX;
+  for (let y = height - 2; y >= 0; y--) {
+    const row = y * width;
+    let bx = seamX;
+    if (seamX > 0 && cost[row + seamX - 1] < cost[row + bx]) bx = seamX - 1;
+    if (seamX < width - 1 && cost[row + seamX + 1] < cost[row + bx]) bx = seamX + 1;
+    seamX = bx;
+    seam[y] = seamX;
+  }
+
+  const out = createPixelBuffer(width - 1, height);
+  const outEnergy = new Float32Array((width - 1) * height);
+  for (let y = 0; y < height; y++) {
+    const cut = seam[y];
+    const srcRow = y * width;
+    const destRow = y * (width - 1);
+    out.data.set(data.subarray(srcRow * 4, (srcRow + cut) * 4), destRow * 4);
+    out.data.set(data.subarray((srcRow + cut + 1) * 4, (srcRow + width) * 4), (destRow + cut) * 4);
+    outEnergy.set(energy.subarray(srcRow, srcRow + cut), destRow);
+    outEnergy.set(energy.subarray(srcRow + cut + 1, srcRow + width), destRow + cut);
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = Math.max(0, seam[y] - 1); x < Math.min(width - 1, seam[y] + 1); x++) {
+      outEnergy[y * (width - 1) + x] = pixelEnergy(out, x, y);
+    }
+  }
+  return { image: out, energy: outEnergy };
+};
+
+// Shrink `img` by `count` pixels along `axis` ('y' removes horizontal seams, 'x' vertical ones).
+// Removing every line leaves an empty band, as squishing to zero does.
+export const carveSeams = (img: PixelBuffer, count: number, axis: 'x' | 'y'): PixelBuffer => {
+  const size = axis === 'x' ? img.width : img.height;
+  const n = Math.min(Math.max(0, Math.round(count)), size);
+  if (n === 0) return img;
+  if (n === size) return axis === 'x' ? createPixelBuffer(0, img.height) : createPixelBuffer(img.width, 0);
+
+  let work = axis === 'y' ? transposePixelBuffer(img) : img;
+  let energy = computeEnergy(work);
+  for (let i = 0; i < n; i++) ({ image: work, energy } = removeVerticalSeam(work, energy));
+  return axis === 'y' ? transposePixelBuffer(work) : work;
+};
@@ -0,0 +1,127 @@
+import { Rect } from '../../../types';
+import { BandDrag, SelectionDrag, SelectionHandle } from '../types';
+
+// Selections may carry negative w/h from the drag direction; editing works on the positive form.
+// Extra fields (e.g. a selection's axis) are carried through by all helpers below.
+export const normalizeRect = <T extends Rect>(r: T): T => {
+    let { x, y, w, h } = r;
+    if (w < 0) { x += w; w = -w; }
+    if (h < 0) { y += h; h = -h; }
+    return { ...r, x, y, w, h };
+};
+
+// Handle positions in rect-relative units (0 = left/top, 0.5 = middle, 1 = right/bottom)
+export const SELECTION_HANDLES: [SelectionHandle, number, number][] = [
+    ['nw', 0, 0], ['n', 0.5, 0], ['ne', 1, 0],
+    ['w', 0, 0.5], ['e', 1, 0.5],
+    ['sw', 0, 1], ['s', 0.5, 1], ['se', 1, 1]
+];
+
+// Topmost selection handle under the pointer. `hitRadius` is in screen px
+// (touch callers pass a larger value so handles stay grabbable under a finger).
+// The body only counts as a 'move' target where `canMoveBody` allows it, so a plain
+// click inside a selection still toggles cells or starts a new drag box.
+export const findSelectionHandle = (
+    selections: Rect[],
+    coords: {x: number, y: number},
+    scale: number,
+    hitRadius: number,
+    canMoveBody: (index: number) => boolean = () => false
+): { index: number, handle: SelectionHandle } | null => {
+    const radius = hitRadius / scale;
+    for (let i = selections.length - 1; i >= 0; i--) {
+        const r = normalizeRect(selections[i]);
+        for (const [handle, fx, fy] of SELECTION_HANDLES) {
+            const hx = r.x + r.w * fx;
+            const hy = r.y + r.h * fy;
+            if (Math.abs(coords.x - hx) <= radius && Math.abs(coords.y - hy) <= radius) return { index: i, handle };
+        }
+        if (canMoveBody(i) && coords.x >= r.x && coords.x <= r.x + r.w && coords.y >= r.y && coords.y <= r.y + r.h) {
+            return { index: i, handle: 'move' };
+        }
+    }
+    return null;
+};
+
+export const beginSelectionDrag = (
+    selections: Rect[],
+    index: number,
+    handle: SelectionHandle,
+    coords: {x: number, y: number}
+): SelectionDrag => ({
+    index,
+    handle,
+    origin: coords,
+    original: normalizeRect(selections[index]),
+    moved: false
+});
+
+// New rect for the current pointer position, kept inside the image and at least 1px in size
+export const applySelectionDrag = (
+    drag: SelectionDrag,
+    coords: {x: number, y: number},
+    imgW: number,
+    imgH: number
+): Rect => {
+    const { original: o, handle } = drag;
+    const dx = Math.round(coords.x - drag.origin.x);
+    const dy = Math.round(coords.y - drag.origin.y);
+
+    if (handle === 'move') {
+        return {
+            ...o,
+            x: Math.max(0, Math.min(imgW - o.w, o.x + dx)),
+            y: Math.max(0, Math.min(imgH - o.h, o.y + dy))
+        };
+    }
+
+    let left = o.x, top = o.y, right = o.x + o.w, bottom = o.y + o.h;
+    if (handle.includes('w')) left = Math.max(0, Math.min(right - 1, left + dx));
+    if (handle.includes('e')) right = Math.min(imgW, Math.max(left + 1, right + dx));
+    if (handle.includes('n')) top = Math.max(0, Math.min(bottom - 1, top + dy));
+    if (handle.includes('s')) bottom = Math.min(imgH, Math.max(top + 1, bottom + dy));
+    return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+// Shift a selection by whole pixels without letting it leave the image
+export const nudgeRect = <T extends Rect>(r: T, dx: number, dy: number, imgW: number, imgH: number): T => {
+    const n = normalizeRect(r);
+    return {
+        ...n,
+        x: Math.max(0, Math.min(imgW - n.w, n.x + dx)),
+        y: Math.max(0, Math.min(imgH - n.h, n.y + dy))
+    };
+};
+
+// Apply typed-in numbers, clamped to the image
+export const clampRect = <T extends Rect>(r: T, imgW: number, imgH: number): T => {
+    const x = Math.max(0, Math.min(imgW - 1, Math.round(r.x)));
+    const y = Math.max(0, Math.min(imgH - 1, Math.round(r.y)));
+    return {
+        ...r,
+        x,
+        y,
+        w: Math.max(1, Math.min(imgW - x, Math.round(r.w))),
+        h: Math.max(1, Math.min(imgH - y, Math.round(r.h)))
+    };
+};
+
+// Full-width row band (or full-height column band) spanning the anchor cell and the cell
+// under the pointer. Uses each cell's own extent, so a merged cell selects every row/column it covers.
+export const getBandRect = (
+    drag: BandDrag,
+    current: Rect | null,
+    imgW: number,
+    imgH: number
+): Rect => {
+    const a = drag.anchor;
+    const c = current ?? a;
+    if (drag.axis === 'horizontal') {
+        const top = Math.min(a.y, c.y);
+        const bottom = Math.max(a.y + a.h, c.y + c.h);
+        return { x: 0, y: top, w: imgW, h: bottom - top };
+    }
+    const left = Math.min(a.x, c.x);
+    const right = Math.max(a.x + a.w, c.x + c.w);
+    return { x: left, y: 0, w: right - left, h: imgH };
+};
@@ -0,0 +1,98 @@
+import { Grid, GridLine, Rect } from '../../../types';
+import { PixelBuffer, ShiftDirection } from '../types';
+import { PixelCropResult, mapAxis } from './cropCore';
+import { clonePixelBuffer, getDominantColor, transposePixelBuffer } from './pixelBuffer';
+import { mergeCollinearLines, transposeGrid } from './gridManipulation';
+
+// Local deletion: remove a cell-sized region from its own column (or row) strip only,
+// slide the rest of that strip up (or left) and pad the freed end with background.
+// The image keeps its size; only the strip's grid lines move.
+// 'left' is implemented as 'up' on the transposed image and grid.
+
+const transposeRect = (r: Rect): Rect => ({ x: r.y, y: r.x, w: r.h, h: r.w });
+
+// Split horizontal lines at the strip edges so only the part inside [x0, x1) moves
+const splitAt = (lines: GridLine[], x0: number, x1: number) => {
+    const inside: GridLine[] = [];
+    const outside: GridLine[] = [];
+    lines.forEach(l => {
+        if (l.end <= x0 || l.start >= x1) {
+            outside.push(l);
+            return;
+        }
+        if (l.start < x0) outside.push({ ...l, end: x0 });
+        if (l.end > x1) outside.push({ ...l, start: x1 });
+        inside.push({ ...l, start: Math.max(l.start, x0), end: Math.min(l.end, x1) });
+    });
+    return { inside, outside };
+};
+
+const shiftUp = (image: PixelBuffer, region: Rect, grid: Grid | null): PixelCropResult => {
+    const { width, height } = image;
+    const y0 = Math.max(0, Math.round(region.y));
+    const cut = Math.min(height - y0, Math.round(region.h));
+    const cellX0 = Math.max(0, Math.round(region.x));
+    const cellX1 = Math.min(width, Math.round(region.x + region.w));
+
+    // Keep the column's own vertical borders out of the moving strip, so they aren't padded away
+    const borderHalf = (pos: number) => {
+        const line = grid?.vertical.find(l => Math.abs(l.pos - pos) < 1 && l.start <= y0 && l.end >= y0 + cut);
+        return line ? Math.ceil(line.thickness / 2) : 0;
+    };
+    const x0 = Math.min(cellX1, cellX0 + borderHalf(cellX0));
+    const x1 = Math.max(x0, cellX1 - borderHalf(cellX1));
+
+    if (cut <= 0 || x1 <= x0) return { image: clonePixelBuffer(image), grid: grid ?? undefined };
+
+    const out = clonePixelBuffer(image);
+    const rowBytes = (x1 - x0) * 4;
+    for (let y = y0; y < height - cut; y++) {
+        const src = ((y + cut) * width + x0) * 4;
+        out.data.copyWithin((y * width + x0) * 4, src, src + rowBytes);
+    }
+    const [r, g, b, a] = getDominantColor(image, { x: x0, y: 0, w: x1 - x0, h: height });
+    for (let y = height - cut; y < height; y++) {
+        for (let x = x0; x < x1; x++) {
+            const i = (y * width + x) * 4;
+            out.data[i] = r; out.data[i+1] = g; out.data[i+2] = b; out.data[i+3] = a;
+        }
+    }
+
+    if (!grid) return { image: out };
+
+    // Horizontal lines: inside the strip, drop those in the removed band and lift the rest
+    const { inside, outside } = splitAt(grid.horizontal, cellX0, cellX1);
+    // (the image's own bottom edge stays put)
+    const moved = inside
+        .filter(l => l.pos < y0 || l.pos >= y0 + cut)
+        .map(l => l.pos >= y0 + cut && l.pos < height ? { ...l, pos: l.pos - cut } : l);
+
+    // Vertical lines strictly inside the strip (e.g. from merged cells) are clipped and lifted too
+    const removed = [{ start: y0, end: y0 + cut }];
+    const vertical = grid.vertical
+        .map(l => {
+            if (l.pos <= cellX0 || l.pos >= cellX1) return l;
+            return { ...l, start: mapAxis(l.start, removed), end: mapAxis(l.end, removed) };
+        })
+        .filter(l => l.end > l.start);
+
+    return {
+        image: out,
+        grid: { horizontal: mergeCollinearLines([...outside, ...moved]), vertical }
+    };
+};
+
+export const shiftDeletePixels = (
+    image: PixelBuffer,
+    region: Rect,
+    direction: ShiftDirection,
+    grid: Grid | null
+): PixelCropResult => {
+    if (direction === 'up') return shiftUp(image, region, grid);
+
+    const res = shiftUp(transposePixelBuffer(image), transposeRect(region), grid && transposeGrid(grid));
+    return {
+        image: transposePixelBuffer(res.image),
+        grid: res.grid && transposeGrid(res.grid)
+    };
+};
@@ -0,0 +1,45 @@
+// Zoom/pan math shared by pinch gestures and the wheel. The canvas is centred in its container,
+// then translated by `pan` and scaled about its centre, all in screen (client) pixels.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 5;
+
+export const clampScale = (scale: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+// Most one wheel event may zoom by: trackpad pinches send many small deltas and zoom smoothly,
+// while a mouse wheel notch (deltaY ~100) is held to one 25% step
+const MAX_WHEEL_ZOOM_STEP = 1.25;
+
+export const getWheelZoomFactor = (deltaY: number) =>
+    Math.max(1 / MAX_WHEEL_ZOOM_STEP, Math.min(MAX_WHEEL_ZOOM_STEP, Math.exp(-deltaY * 0.01)));
+
+// Pan after zooming from `startScale` to `scale` such that the image point that sat under
+// `focus` (at `startPan`) ends up under `target` — the same point for a wheel, the moved
+// finger midpoint for a pinch. `center` is the container centre in client coordinates.
+export const getFocalPan = (
+    center: Point,
+    focus: Point,
+    startPan: Point,
+    startScale: number,
+    scale: number,
+    target: Point = focus
+): Point => {
+    const ratio = scale / startScale;
+    return {
+        x: target.x - center.x - (focus.x - center.x - startPan.x) * ratio,
+        y: target.y - center.y - (focus.y - center.y - startPan.y) * ratio
+    };
+};
+
+// Wheel deltas in pixels, whatever unit the device reports them in
+export const getWheelDelta = (e: WheelEvent, pageSize: number): Point => {
+    const unit = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? pageSize : 1;
+    // Shift turns a plain mouse wheel sideways on platforms that don't already do so
+    if (e.shiftKey && e.deltaX === 0) return { x: e.deltaY * unit, y: 0 };
+    return { x: e.deltaX * unit, y: e.deltaY * unit };
+};
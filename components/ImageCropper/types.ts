@@ -1,5 +1,5 @@
 
-import { Rect, Grid } from '../../types';
+import { Rect, Grid, GridLine } from '../../types';
 
 export interface Segment {
   id: number;
@@ -7,6 +7,7 @@ export interface Segment {
   start: number;
   end: number;
   length: number;
+  thickness?: number; // Measured stroke width, set once segments are clustered
 }
 
 export interface EraserHover {
@@ -16,3 +17,134 @@ export interface EraserHover {
   end: number;
   isWholeLine: boolean;
 }
+
+// Grid editing tools: erase a segment, erase a whole line, draw a new line, or move/resize one
+export type GridTool = 'segment' | 'line' | 'draw' | 'move';
+
+// Which part of a line the move tool is dragging
+export type LineHandle = 'pos' | 'start' | 'end';
+
+export interface LineDrag {
+  type: 'horizontal' | 'vertical';
+  lineIndex: number;
+  handle: LineHandle;
+  origin: { x: number; y: number };
+  original: GridLine;
+}
+
+// Part of a selection rectangle being dragged: the body moves it, edges/corners resize it
+export type SelectionHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export interface SelectionDrag {
+  index: number;
+  handle: SelectionHandle;
+  origin: { x: number; y: number };
+  original: Rect;
+  moved: boolean; // Whether the pointer has moved since the drag began (a still click activates/toggles instead)
+}
+
+// Shift/Alt/long-press drag that selects whole rows or columns between grid lines
+export interface BandDrag {
+  axis: 'horizontal' | 'vertical'; // 'horizontal' = a row band (same convention as GapProposal)
+  anchor: Rect; // Cell the drag started on
+}
+
+// Drag that moves a whole row or column band to another grid line
+export interface ReorderDrag {
+  axis: 'horizontal' | 'vertical' | null; // Decided by the first clear movement; 'horizontal' = a row band
+  origin: { x: number; y: number };
+  anchor: Rect; // Cell the drag started on; its extent is the band that moves
+  target: number | null; // Line position the band will be re-inserted at
+}
+
+// Insert-space tool: what a click on the canvas adds
+export interface InsertSettings {
+  axis: 'horizontal' | 'vertical'; // 'horizontal' = insert rows (same convention as GapProposal)
+  amount: number; // px
+  color: string | null; // '#rrggbb', or null to sample the background around the insertion
+}
+
+// Redaction: hide selected cells in place instead of removing them
+export type RedactStyle = 'fill' | 'blur' | 'pixelate';
+
+export interface RedactSettings {
+  style: RedactStyle;
+  strength: number; // Blur radius or mosaic block size (px)
+  color: string | null; // Fill: '#rrggbb', or null to use each cell's own background
+}
+
+// Local cell deletion: which way the rest of the column/row strip slides in
+export type ShiftDirection = 'up' | 'left';
+
+// Cells of a grid with a point lookup, built once per grid for hover and click hit-testing
+export interface CellIndex {
+  cells: Rect[];
+  cellAt: (x: number, y: number) => Rect | null;
+}
+
+// A line being drawn (not yet part of the grid)
+export interface DraftLine {
+  type: 'horizontal' | 'vertical';
+  line: GridLine;
+}
+
+// A blank band found by the auto gap finder, pending user review
+export interface GapProposal {
+  axis: 'horizontal' | 'vertical'; // 'horizontal' = a row band (removes rows)
+  start: number;
+  end: number;
+  selected: boolean;
+}
+
+export interface GapSettings {
+  minGap: number;   // Ignore blank runs shorter than this (px)
+  padding: number;  // Blank px kept on each side of a removed band
+  rows: boolean;
+  columns: boolean;
+}
+
+// Plain RGBA raster (same layout as ImageData) used by the DOM-free processing core
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Tunable parameters of scanGrid (see DEFAULT_DETECTION_SETTINGS in logic/gridCore.ts)
+export interface DetectionSettings {
+  contrastThreshold: number; // Min summed RGB difference between neighbours to count as an edge
+  minSegmentLength: number;  // Min edge run length in px...
+  minSegmentRatio: number;   // ...or this fraction of the smaller image dimension, whichever is larger
+  gapTolerance: number;      // Max gap bridged when joining runs along a line
+  posTolerance: number;      // Max offset between runs clustered into one line
+}
+
+export type DetectionPreset = 'default' | 'faint' | 'dark' | 'dense';
+
+// Messages exchanged with logic/gridDetection.worker.ts
+export interface DetectionWorkerRequest {
+  image: PixelBuffer;
+  settings: DetectionSettings;
+}
+
+export type DetectionWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; grid: Grid };
+
+export interface DeskewWorkerRequest {
+  image: PixelBuffer;
+}
+
+// Result is null when the image is already level
+export type DeskewWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: { image: PixelBuffer; angle: number } | null };
+
+// Crop preview overlay: a source region that will be physically cut, or squished/carved
+export interface CropPlanRegion {
+  rect: Rect;
+  action: 'cut' | 'squish';
+}
+
+// Crop preview layout: after-image revealed by a divider, or drawn next to the original
+export type PreviewView = 'slider' | 'side';
@@ -1,6 +1,10 @@
-import React, { useRef, useEffect } from 'react';
-import { Grid, Rect, GridLine } from '../../../types';
-import { EraserHover } from '../types';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { Grid, Rect, CropMode, CropSelection } from '../../../types';
+import { EraserHover, DraftLine, GridTool, GapProposal, PreviewView, SelectionHandle, ReorderDrag, InsertSettings } from '../types';
+import { getProposalRect } from '../logic/gapDetection';
+import { CropPreview } from '../logic/imageProcessor';
+import { SELECTION_HANDLES } from '../logic/selectionEditing';
+import { getReorderBand } from '../logic/reorder';
 
 interface CanvasViewProps {
   imageSrc: string;
@@ -9,228 +13,525 @@ interface CanvasViewProps {
   scale: number;
   pan: { x: number, y: number };
   grid: Grid | null;
-  selections: Rect[];
+  selections: CropSelection[];
+  activeSelection: number | null;
+  hoveredHandle: SelectionHandle | null;
   currentDrag: Rect | null;
   isScanning: boolean;
+  scanProgress: number; // 0..1
   isEditingGrid: boolean;
-  isGesturing: boolean;
+  isPanning: boolean; // Space/middle-button drag in progress
+  isGesturing: boolean; // Two-finger pinch/pan in progress
+  isSpaceHeld: boolean;
   hoveredCell: Rect | null;
   hoveredSegment: EraserHover | null;
+  draftLine: DraftLine | null;
+  gridTool: GridTool;
+  gapProposals: GapProposal[];
+  isReordering: boolean;
+  reorderDrag: ReorderDrag | null;
+  insertAt: number | null; // Insert-space tool: where a click would add space
+  insertSettings: InsertSettings;
+  preview: CropPreview | null;
+  previewView: PreviewView;
+  previewSplit: number; // 0..1, slider view: the after-image shows left of this fraction of the width
+  onChangePreviewSplit: (split: number) => void;
   onPointerDown: (e: React.MouseEvent | React.TouchEvent) => void;
   onPointerMove: (e: React.MouseEvent | React.TouchEvent) => void;
   onPointerUp: (e: React.MouseEvent | React.TouchEvent) => void;
-  onWheel: (e: React.WheelEvent) => void;
 }
 
+// Selection colours: untagged (follows the crop button), rows, columns, both
+const AXIS_STYLES: Record<CropMode | 'default', { fill: string, stroke: string, hatch: string }> = {
+  default: { fill: 'rgba(239, 68, 68, 0.25)', stroke: '#ef4444', hatch: 'rgba(239, 68, 68, 0.5)' },
+  horizontal: { fill: 'rgba(244, 63, 94, 0.2)', stroke: '#f43f5e', hatch: 'rgba(244, 63, 94, 0.6)' },
+  vertical: { fill: 'rgba(139, 92, 246, 0.2)', stroke: '#8b5cf6', hatch: 'rgba(139, 92, 246, 0.6)' },
+  both: { fill: 'rgba(249, 115, 22, 0.2)', stroke: '#f97316', hatch: 'rgba(249, 115, 22, 0.6)' }
+};
+
+const HANDLE_CURSORS: Record<SelectionHandle, string> = {
+  move: 'cursor-move',
+  n: 'cursor-ns-resize', s: 'cursor-ns-resize',
+  e: 'cursor-ew-resize', w: 'cursor-ew-resize',
+  ne: 'cursor-nesw-resize', sw: 'cursor-nesw-resize',
+  nw: 'cursor-nwse-resize', se: 'cursor-nwse-resize'
+};
+
+// Gap between the original and the after-image in the side-by-side preview, in image px
+const SIDE_GAP = 16;
+
+// Zoom/pan transition of the page; the interaction layer follows the same curve
+const VIEW_TRANSITION_MS = 100;
+
+// Size the interaction layer to the container in device pixels (which also clears it), or just
+// clear it, then map image space onto it: callers draw in image px and only `view` ends up on
+// screen. Canvas memory stays at screen size however large the image is.
+const getViewportContext = (canvas: HTMLCanvasElement | null, size: { w: number, h: number }, view: Rect, scale: number) => {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  const w = Math.round(size.w * dpr);
+  const h = Math.round(size.h * dpr);
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  } else {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+  }
+  const k = scale * dpr;
+  ctx.setTransform(k, 0, 0, k, -view.x * k, -view.y * k);
+  return ctx;
+};
+
 export const CanvasView: React.FC<CanvasViewProps> = ({
-  imageSrc, width, height, scale, pan, grid, selections, currentDrag, 
-  isScanning, isEditingGrid, isGesturing, hoveredCell, hoveredSegment,
-  onPointerDown, onPointerMove, onPointerUp, onWheel
+  imageSrc, width, height, scale, pan, grid, selections, activeSelection, hoveredHandle, currentDrag, 
+  isScanning, scanProgress, isEditingGrid, isPanning, isGesturing, isSpaceHeld, hoveredCell, hoveredSegment, draftLine, gridTool, gapProposals,
+  isReordering, reorderDrag, insertAt, insertSettings, preview, previewView, previewSplit, onChangePreviewSplit,
+  onPointerDown, onPointerMove, onPointerUp
 }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const scanProgressRef = useRef(0);
-  const animationRef = useRef(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null); // Interaction layer, on top
+  const [shownImage, setShownImage] = useState<{ src: string, width: number, height: number } | null>(null);
+  const [afterImg, setAfterImg] = useState<HTMLImageElement | null>(null);
+  const [viewSize, setViewSize] = useState({ w: 0, h: 0 });
+
+  // Track the viewport: the interaction layer is sized to it, and anything off screen is skipped
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewSize({ w: el.clientWidth, h: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Disable the transition while dragging, gesturing or panning to prevent jitter
+  const isInstant = !!(currentDrag || reorderDrag || isGesturing || isPanning);
 
+  // Scale and pan as currently shown. The page eases into a new view with a CSS transition;
+  // this follows the same linear curve so the interaction layer stays on top of the image.
+  const [shown, setShown] = useState({ scale, pan });
+  const shownRef = useRef(shown);
+  useEffect(() => {
+    const from = shownRef.current;
+    if (from.scale === scale && from.pan.x === pan.x && from.pan.y === pan.y) return;
+    const to = { scale, pan: { x: pan.x, y: pan.y } };
+    if (isInstant) {
+        shownRef.current = to;
+        setShown(to);
+        return;
+    }
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+        const t = Math.min(1, (now - start) / VIEW_TRANSITION_MS);
+        const next = t === 1 ? to : {
+            scale: from.scale + (to.scale - from.scale) * t,
+            pan: { x: from.pan.x + (to.pan.x - from.pan.x) * t, y: from.pan.y + (to.pan.y - from.pan.y) * t }
+        };
+        shownRef.current = next;
+        setShown(next);
+        if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [scale, pan.x, pan.y, isInstant]);
+
+  // Image-space rect currently on screen (the page is centred, then panned and scaled)
+  const view = useMemo((): Rect => {
+    if (viewSize.w === 0 || viewSize.h === 0) return { x: 0, y: 0, w: width, h: height };
+    const x = width / 2 - (viewSize.w / 2 + shown.pan.x) / shown.scale;
+    const y = height / 2 - (viewSize.h / 2 + shown.pan.y) / shown.scale;
+    return { x, y, w: viewSize.w / shown.scale, h: viewSize.h / shown.scale };
+  }, [viewSize, shown, width, height]);
+
+  // The image is shown as an element on the page, so the browser only rasterises what is on
+  // screen, even past its canvas limits. The previous one (at its own size) stays up until the
+  // new one has loaded, so crop/undo/redo never flash a blank page.
   useEffect(() => {
-    // Create image once when src changes
     const img = new Image();
+    let active = true;
+    img.onload = () => { if (active) setShownImage({ src: imageSrc, width, height }); };
     img.src = imageSrc;
+    return () => { active = false; };
+  }, [imageSrc, width, height]);
 
-    const render = () => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+  // The crop preview's after-image, decoded once per preview
+  useEffect(() => {
+    setAfterImg(null);
+    if (!preview) return;
+    const img = new Image();
+    let active = true;
+    img.onload = () => { if (active) setAfterImg(img); };
+    img.src = preview.dataUrl;
+    return () => { active = false; };
+  }, [preview]);
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+  // Grid layer: vector lines in image px on the page, so pan and zoom move it without a redraw;
+  // it is only rebuilt when the grid or its stroke changes. Non-scaling strokes stay 1 screen px
+  // wide, and one element per line keeps crossings darkening as they always have. A hovered line
+  // is covered by its highlight on the interaction layer instead of being left out here.
+  const gridLayer = useMemo(() => {
+    if (!grid) return null;
+    const alpha = isScanning ? 0.6 : (isEditingGrid ? 0.4 : 0.2); 
+    return (
+        <svg width={width} height={height} className="absolute top-0 left-0 overflow-visible pointer-events-none" stroke={`rgba(56, 189, 248, ${alpha})`}>
+            {grid.horizontal.map((l, i) => (
+                <line key={`h${i}`} x1={l.start} y1={l.pos} x2={l.end} y2={l.pos} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            ))}
+            {grid.vertical.map((l, i) => (
+                <line key={`v${i}`} x1={l.pos} y1={l.start} x2={l.pos} y2={l.end} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            ))}
+        </svg>
+    );
+  }, [grid, width, height, isScanning, isEditingGrid]);
 
-        if (canvas.width !== width || canvas.height !== height) {
-            canvas.width = width;
-            canvas.height = height;
-        }
+  // Interaction layer: hover, selections, drags and previews. Cheap to redraw on every pointer
+  // move since it is screen-sized and the image and grid underneath stay put.
+  useEffect(() => {
+    const ctx = getViewportContext(canvasRef.current, viewSize, view, shown.scale);
+    if (!ctx) return;
 
-        // Only draw if loaded
-        if (img.complete) {
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            ctx.drawImage(img, 0, 0, width, height);
-        } else {
-            // Retry if not loaded
-            img.onload = () => render();
-        }
+    const margin = 12 / shown.scale; // Room for handles and strokes straddling the view edge
+    const isVisible = (r: Rect) =>
+        r.x - margin < view.x + view.w && r.x + r.w + margin > view.x &&
+        r.y - margin < view.y + view.h && r.y + r.h + margin > view.y;
 
-        // Draw Grid
-        if (grid) {
-            ctx.save();
-            ctx.lineWidth = 1 / scale;
-            const alpha = isScanning ? 0.6 : (isEditingGrid ? 0.4 : 0.2); 
-            ctx.strokeStyle = `rgba(56, 189, 248, ${alpha})`;
+    if (grid) {
+        ctx.save();
+        // Eraser / Move Highlight
+        if (isEditingGrid && hoveredSegment) {
+            const highlight = gridTool === 'move' ? '#0ea5e9' : '#ef4444';
+            ctx.beginPath();
+            ctx.strokeStyle = highlight;
+            ctx.lineWidth = 3 / shown.scale;
+            ctx.shadowColor = highlight;
+            ctx.shadowBlur = 5;
             
-            const drawLines = (lines: GridLine[], type: 'h' | 'v') => {
-                 lines.forEach((l, i) => {
-                    // Skip if currently hovering this segment (drawn red later)
-                    if (isEditingGrid && hoveredSegment && hoveredSegment.type === (type==='h'?'horizontal':'vertical') && hoveredSegment.lineIndex === i && hoveredSegment.isWholeLine) {
-                         return; 
-                    }
-                    
-                    ctx.beginPath();
-                    if (type === 'h') {
-                        ctx.moveTo(l.start, l.pos);
-                        ctx.lineTo(l.end, l.pos);
+            if (hoveredSegment.type === 'horizontal') {
+                const line = grid.horizontal[hoveredSegment.lineIndex];
+                if (line) { // Safety check: line might have been deleted
+                    const y = line.pos;
+                    if (hoveredSegment.isWholeLine) {
+                         ctx.moveTo(line.start, y);
+                         ctx.lineTo(line.end, y);
                     } else {
-                        ctx.moveTo(l.pos, l.start);
-                        ctx.lineTo(l.pos, l.end);
-                    }
-                    ctx.stroke();
-                 });
-            };
-
-            drawLines(grid.horizontal, 'h');
-            drawLines(grid.vertical, 'v');
-
-            // Eraser Highlight
-            if (isEditingGrid && hoveredSegment) {
-                ctx.beginPath();
-                ctx.strokeStyle = '#ef4444';
-                ctx.lineWidth = 3 / scale;
-                ctx.shadowColor = '#ef4444';
-                ctx.shadowBlur = 5;
-                
-                if (hoveredSegment.type === 'horizontal') {
-                    const line = grid.horizontal[hoveredSegment.lineIndex];
-                    if (line) { // Safety check: line might have been deleted
-                        const y = line.pos;
-                        if (hoveredSegment.isWholeLine) {
-                             ctx.moveTo(line.start, y);
-                             ctx.lineTo(line.end, y);
-                        } else {
-                             ctx.moveTo(hoveredSegment.start, y);
-                             ctx.lineTo(hoveredSegment.end, y);
-                        }
+                         ctx.moveTo(hoveredSegment.start, y);
+                         ctx.lineTo(hoveredSegment.end, y);
                     }
-                } else {
-                    const line = grid.vertical[hoveredSegment.lineIndex];
-                    if (line) { // Safety check
-                        const x = line.pos;
-                         if (hoveredSegment.isWholeLine) {
-                             ctx.moveTo(x, line.start);
-                             ctx.lineTo(x, line.end);
-                        } else {
-                            ctx.moveTo(x, hoveredSegment.start);
-                            ctx.lineTo(x, hoveredSegment.end);
-                        }
+                }
+            } else {
+                const line = grid.vertical[hoveredSegment.lineIndex];
+                if (line) { // Safety check
+                    const x = line.pos;
+                     if (hoveredSegment.isWholeLine) {
+                         ctx.moveTo(x, line.start);
+                         ctx.lineTo(x, line.end);
+                    } else {
+                        ctx.moveTo(x, hoveredSegment.start);
+                        ctx.lineTo(x, hoveredSegment.end);
                     }
                 }
-                ctx.stroke();
             }
-            ctx.restore();
+            ctx.stroke();
+
+            // Resize handles at both ends of the line
+            const line = (hoveredSegment.type === 'horizontal' ? grid.horizontal : grid.vertical)[hoveredSegment.lineIndex];
+            if (gridTool === 'move' && line) {
+                const size = 8 / shown.scale;
+                ctx.fillStyle = '#ffffff';
+                ctx.lineWidth = 1.5 / shown.scale;
+                for (const end of [line.start, line.end]) {
+                    const hx = hoveredSegment.type === 'horizontal' ? end : line.pos;
+                    const hy = hoveredSegment.type === 'horizontal' ? line.pos : end;
+                    ctx.fillRect(hx - size / 2, hy - size / 2, size, size);
+                    ctx.strokeRect(hx - size / 2, hy - size / 2, size, size);
+                }
+            }
         }
 
-        // Scan Animation
-        if (isScanning) {
+        // Draw Tool Preview
+        if (isEditingGrid && draftLine) {
+            const l = draftLine.line;
+            ctx.beginPath();
+            ctx.strokeStyle = '#22c55e';
+            ctx.lineWidth = 3 / shown.scale;
+            ctx.setLineDash([6 / shown.scale, 4 / shown.scale]);
+            if (draftLine.type === 'horizontal') {
+                ctx.moveTo(l.start, l.pos);
+                ctx.lineTo(l.end, l.pos);
+            } else {
+                ctx.moveTo(l.pos, l.start);
+                ctx.lineTo(l.pos, l.end);
+            }
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        ctx.restore();
+    }
+
+    // Scan Overlay (driven by detection worker progress)
+    if (isScanning) {
+        ctx.save();
+        const scanY = scanProgress * height;
+        const gradient = ctx.createLinearGradient(0, scanY - 100, 0, scanY);
+        gradient.addColorStop(0, 'rgba(14, 165, 233, 0)');
+        gradient.addColorStop(1, 'rgba(56, 189, 248, 0.25)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, scanY - 100, width, 100);
+
+        ctx.beginPath();
+        ctx.moveTo(0, scanY);
+        ctx.lineTo(width, scanY);
+        ctx.strokeStyle = '#38bdf8';
+        ctx.lineWidth = 2;
+        ctx.shadowColor = '#0ea5e9';
+        ctx.shadowBlur = 15;
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // Hover Cell
+    if (hoveredCell && !isEditingGrid) {
+        ctx.fillStyle = 'rgba(56, 189, 248, 0.15)';
+        ctx.strokeStyle = 'rgba(14, 165, 233, 0.9)';
+        ctx.lineWidth = 2 / shown.scale;
+        ctx.fillRect(hoveredCell.x, hoveredCell.y, hoveredCell.w, hoveredCell.h);
+        ctx.strokeRect(hoveredCell.x, hoveredCell.y, hoveredCell.w, hoveredCell.h);
+    }
+
+    // Selections
+    selections.forEach((s, index) => {
+        let rx = s.x;
+        let ry = s.y;
+        let rw = s.w;
+        let rh = s.h;
+        if (rw < 0) { rx += rw; rw = Math.abs(rw); }
+        if (rh < 0) { ry += rh; rh = Math.abs(rh); }
+        if (!isVisible({ x: rx, y: ry, w: rw, h: rh })) return;
+
+        const style = s.axis ? AXIS_STYLES[s.axis] : AXIS_STYLES.default;
+        ctx.fillStyle = style.fill;
+        ctx.fillRect(rx, ry, rw, rh);
+        ctx.strokeStyle = style.stroke;
+        ctx.lineWidth = 2 / shown.scale;
+        ctx.strokeRect(rx, ry, rw, rh);
+
+        // Tagged selections are hatched along the direction they remove
+        if (s.axis) {
+            const step = 8 / shown.scale;
             ctx.save();
-            scanProgressRef.current = (scanProgressRef.current + 25) % (canvas.height + 300);
-            const scanY = scanProgressRef.current - 150;
-            if (scanY < canvas.height + 50) {
-                const gradient = ctx.createLinearGradient(0, scanY - 100, 0, scanY);
-                gradient.addColorStop(0, 'rgba(14, 165, 233, 0)');
-                gradient.addColorStop(1, 'rgba(56, 189, 248, 0.25)');
-                ctx.fillStyle = gradient;
-                ctx.fillRect(0, scanY - 100, canvas.width, 100);
-                
-                ctx.beginPath();
-                ctx.moveTo(0, scanY);
-                ctx.lineTo(canvas.width, scanY);
-                ctx.strokeStyle = '#38bdf8';
-                ctx.lineWidth = 2;
-                ctx.shadowColor = '#0ea5e9';
-                ctx.shadowBlur = 15;
-                ctx.stroke();
+            ctx.beginPath();
+            ctx.rect(rx, ry, rw, rh);
+            ctx.clip();
+            ctx.beginPath();
+            if (s.axis !== 'vertical') {
+                for (let y = ry + step; y < ry + rh; y += step) { ctx.moveTo(rx, y); ctx.lineTo(rx + rw, y); }
             }
+            if (s.axis !== 'horizontal') {
+                for (let x = rx + step; x < rx + rw; x += step) { ctx.moveTo(x, ry); ctx.lineTo(x, ry + rh); }
+            }
+            ctx.strokeStyle = style.hatch;
+            ctx.lineWidth = 1 / shown.scale;
+            ctx.stroke();
             ctx.restore();
-            animationRef.current = requestAnimationFrame(render);
+        } else if (rw > 12 && rh > 12) {
+            ctx.beginPath();
+            ctx.moveTo(rx, ry);
+            ctx.lineTo(rx + rw, ry + rh);
+            ctx.moveTo(rx + rw, ry);
+            ctx.lineTo(rx, ry + rh);
+            ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)';
+            ctx.lineWidth = 1 / shown.scale;
+            ctx.stroke();
         }
 
-        // Hover Cell
-        if (hoveredCell && !isEditingGrid) {
-            ctx.fillStyle = 'rgba(56, 189, 248, 0.15)';
-            ctx.strokeStyle = 'rgba(14, 165, 233, 0.9)';
-            ctx.lineWidth = 2 / scale;
-            ctx.fillRect(hoveredCell.x, hoveredCell.y, hoveredCell.w, hoveredCell.h);
-            ctx.strokeRect(hoveredCell.x, hoveredCell.y, hoveredCell.w, hoveredCell.h);
+        // Move / resize handles (the active selection is the one arrow keys nudge)
+        if (!isEditingGrid) {
+            const isActive = index === activeSelection;
+            const size = (isActive ? 9 : 7) / shown.scale;
+            ctx.fillStyle = isActive ? '#0ea5e9' : '#ffffff';
+            ctx.strokeStyle = isActive ? '#ffffff' : style.stroke;
+            ctx.lineWidth = 1.5 / shown.scale;
+            SELECTION_HANDLES.forEach(([, fx, fy]) => {
+                const hx = rx + rw * fx - size / 2;
+                const hy = ry + rh * fy - size / 2;
+                ctx.fillRect(hx, hy, size, size);
+                ctx.strokeRect(hx, hy, size, size);
+            });
         }
+    });
 
-        // Selections
-        selections.forEach(s => {
-            let rx = s.x;
-            let ry = s.y;
-            let rw = s.w;
-            let rh = s.h;
-            if (rw < 0) { rx += rw; rw = Math.abs(rw); }
-            if (rh < 0) { ry += rh; rh = Math.abs(rh); }
-
-            ctx.fillStyle = 'rgba(239, 68, 68, 0.25)';
-            ctx.fillRect(rx, ry, rw, rh);
-            ctx.strokeStyle = '#ef4444';
-            ctx.lineWidth = 2 / scale;
-            ctx.strokeRect(rx, ry, rw, rh);
-            
-            if (rw > 12 && rh > 12) {
-                ctx.beginPath();
-                ctx.moveTo(rx, ry);
-                ctx.lineTo(rx + rw, ry + rh);
-                ctx.moveTo(rx + rw, ry);
-                ctx.lineTo(rx, ry + rh);
-                ctx.strokeStyle = 'rgba(239, 68, 68, 0.5)';
-                ctx.lineWidth = 1 / scale;
-                ctx.stroke();
-            }
-        });
+    // Gap Proposals (selected = will be removed)
+    gapProposals.forEach(p => {
+        const r = getProposalRect(p, width, height);
+        if (!isVisible(r)) return;
+        ctx.save();
+        if (p.selected) {
+            ctx.fillStyle = 'rgba(34, 197, 94, 0.25)';
+            ctx.fillRect(r.x, r.y, r.w, r.h);
+            ctx.strokeStyle = '#22c55e';
+        } else {
+            ctx.strokeStyle = 'rgba(148, 163, 184, 0.9)';
+            ctx.setLineDash([4 / shown.scale, 4 / shown.scale]);
+        }
+        ctx.lineWidth = 1.5 / shown.scale;
+        ctx.strokeRect(r.x, r.y, r.w, r.h);
+        ctx.restore();
+    });
+
+    // Drag Box
+    if (currentDrag && (Math.abs(currentDrag.w) > 2 || Math.abs(currentDrag.h) > 2)) {
+        let rx = currentDrag.x;
+        let ry = currentDrag.y;
+        let rw = currentDrag.w;
+        let rh = currentDrag.h;
+        if (rw < 0) { rx += rw; rw = Math.abs(rw); }
+        if (rh < 0) { ry += rh; rh = Math.abs(rh); }
 
-        // Drag Box
-        if (currentDrag && (Math.abs(currentDrag.w) > 2 || Math.abs(currentDrag.h) > 2)) {
-            let rx = currentDrag.x;
-            let ry = currentDrag.y;
-            let rw = currentDrag.w;
-            let rh = currentDrag.h;
-            if (rw < 0) { rx += rw; rw = Math.abs(rw); }
-            if (rh < 0) { ry += rh; rh = Math.abs(rh); }
+        ctx.fillStyle = 'rgba(14, 165, 233, 0.2)';
+        ctx.strokeStyle = '#0ea5e9';
+        ctx.lineWidth = 2 / shown.scale;
+        ctx.setLineDash([4, 4]);
+        ctx.fillRect(rx, ry, rw, rh);
+        ctx.strokeRect(rx, ry, rw, rh);
+        ctx.setLineDash([]);
+    }
 
-            ctx.fillStyle = 'rgba(14, 165, 233, 0.2)';
+    // Row/column being moved, and the line it will be dropped on
+    const reorderBand = reorderDrag && getReorderBand(reorderDrag);
+    if (reorderDrag && reorderBand) {
+        const isRow = reorderDrag.axis === 'horizontal';
+        const len = reorderBand.end - reorderBand.start;
+        ctx.fillStyle = 'rgba(14, 165, 233, 0.25)';
+        if (isRow) ctx.fillRect(0, reorderBand.start, width, len);
+        else ctx.fillRect(reorderBand.start, 0, len, height);
+
+        if (reorderDrag.target !== null) {
+            ctx.beginPath();
+            if (isRow) {
+                ctx.moveTo(0, reorderDrag.target);
+                ctx.lineTo(width, reorderDrag.target);
+            } else {
+                ctx.moveTo(reorderDrag.target, 0);
+                ctx.lineTo(reorderDrag.target, height);
+            }
             ctx.strokeStyle = '#0ea5e9';
-            ctx.lineWidth = 2 / scale;
-            ctx.setLineDash([4, 4]);
-            ctx.fillRect(rx, ry, rw, rh);
-            ctx.strokeRect(rx, ry, rw, rh);
-            ctx.setLineDash([]);
+            ctx.lineWidth = 4 / shown.scale;
+            ctx.stroke();
         }
-    };
+    }
+
+    // Space that a click would insert, drawn from the insertion line onwards
+    if (insertAt !== null) {
+        const isRow = insertSettings.axis === 'horizontal';
+        ctx.fillStyle = 'rgba(34, 197, 94, 0.25)';
+        if (isRow) ctx.fillRect(0, insertAt, width, insertSettings.amount);
+        else ctx.fillRect(insertAt, 0, insertSettings.amount, height);
+
+        ctx.beginPath();
+        if (isRow) {
+            ctx.moveTo(0, insertAt);
+            ctx.lineTo(width, insertAt);
+        } else {
+            ctx.moveTo(insertAt, 0);
+            ctx.lineTo(insertAt, height);
+        }
+        ctx.strokeStyle = '#22c55e';
+        ctx.lineWidth = 2 / shown.scale;
+        ctx.stroke();
+    }
+
+    // Crop Preview: which source pixels get cut (red) or squished (amber)
+    if (preview) {
+        preview.plan.forEach(({ rect, action }) => {
+            if (!isVisible(rect)) return;
+            ctx.fillStyle = action === 'cut' ? 'rgba(239, 68, 68, 0.35)' : 'rgba(251, 191, 36, 0.4)';
+            ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+        });
+    }
+
+    // After-image on the left of the divider, original (with overlay) on the right
+    if (preview && afterImg && previewView === 'slider') {
+        const splitX = previewSplit * width;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, splitX, height);
+        ctx.clip();
+        ctx.fillStyle = '#e2e8f0';
+        ctx.fillRect(0, 0, splitX, height);
+        ctx.drawImage(afterImg, 0, 0, preview.width, preview.height);
+        ctx.restore();
 
-    render();
-    return () => cancelAnimationFrame(animationRef.current);
-  }, [imageSrc, width, height, scale, pan, grid, selections, currentDrag, isScanning, isEditingGrid, hoveredCell, hoveredSegment]);
+        ctx.beginPath();
+        ctx.moveTo(splitX, 0);
+        ctx.lineTo(splitX, height);
+        ctx.strokeStyle = '#0ea5e9';
+        ctx.lineWidth = 2 / shown.scale;
+        ctx.stroke();
+    }
+  }, [width, height, shown, view, viewSize, grid, selections, activeSelection, currentDrag, isScanning, scanProgress, isEditingGrid, hoveredCell, hoveredSegment, draftLine, gridTool, gapProposals, reorderDrag, insertAt, insertSettings, preview, afterImg, previewView, previewSplit]);
+
+  const cursor = isPanning ? 'cursor-grabbing'
+    : isSpaceHeld ? 'cursor-grab'
+    : isEditingGrid
+    ? (gridTool === 'move' ? 'cursor-move' : 'cursor-cell')
+    : insertAt !== null ? (insertSettings.axis === 'horizontal' ? 'cursor-row-resize' : 'cursor-col-resize')
+    : isReordering ? (reorderDrag ? 'cursor-grabbing' : 'cursor-grab')
+    : hoveredHandle ? HANDLE_CURSORS[hoveredHandle] : 'cursor-crosshair';
+
+  const transform = `translate(${pan.x}px, ${pan.y}px) scale(${scale})`;
+  const opacityClass = isScanning ? 'opacity-90' : 'opacity-100';
 
   return (
     <div 
-        className={`flex-1 bg-slate-100 dark:bg-slate-950 overflow-hidden flex items-center justify-center p-4 md:p-8 relative select-none touch-none w-full h-full min-h-0 ${isEditingGrid ? 'cursor-cell' : 'cursor-crosshair'}`}
+        ref={containerRef}
+        className={`flex-1 bg-slate-100 dark:bg-slate-950 overflow-hidden flex items-center justify-center p-4 md:p-8 relative select-none touch-none w-full h-full min-h-0 ${cursor}`}
         onMouseDown={onPointerDown}
         onMouseMove={onPointerMove}
         onMouseUp={onPointerUp}
         onMouseLeave={onPointerUp}
-        onWheel={onWheel}
         onTouchStart={onPointerDown}
         onTouchMove={onPointerMove}
         onTouchEnd={onPointerUp}
     >
-        <div 
-            style={{ 
-                transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`, 
+        <div
+            style={{
+                width, height, transform,
                 transformOrigin: 'center',
-                // Disable transition during dragging or gesturing to prevent jitter
-                transition: (currentDrag || isGesturing) ? 'none' : 'transform 0.1s linear'
+                transition: isInstant ? 'none' : `transform ${VIEW_TRANSITION_MS / 1000}s linear`
             }}
-            className={`shadow-2xl shadow-black/20 dark:shadow-black/50 ${isScanning ? 'opacity-90' : 'opacity-100'}`}
+            className={`relative shrink-0 bg-white dark:bg-slate-800 shadow-2xl shadow-black/20 dark:shadow-black/50 ${opacityClass}`}
         >
-            <canvas ref={canvasRef} className="block bg-white dark:bg-slate-800" />
+            {shownImage && (
+                <img
+                    src={shownImage.src} alt="" draggable={false}
+                    style={{ width: shownImage.width, height: shownImage.height }}
+                    className="absolute top-0 left-0 block max-w-none pointer-events-none"
+                />
+            )}
+            {gridLayer}
+            {preview && previewView === 'side' && (
+                // Positioned outside the layout flow so pointer mapping onto the original stays centred
+                <img
+                    src={preview.dataUrl} alt="" draggable={false}
+                    style={{ width: preview.width, height: preview.height, marginLeft: SIDE_GAP }}
+                    className="absolute top-0 left-full block max-w-none pointer-events-none bg-white dark:bg-slate-800 shadow-2xl shadow-black/20 dark:shadow-black/50"
+                />
+            )}
         </div>
+        <canvas ref={canvasRef} className={`absolute inset-0 w-full h-full pointer-events-none ${opacityClass}`} />
+
+        {preview && previewView === 'slider' && (
+            <input
+                type="range" min={0} max={1} step={0.001} value={previewSplit}
+                onChange={(e) => onChangePreviewSplit(Number(e.target.value))}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                className="absolute bottom-6 left-1/2 -translate-x-1/2 w-64 max-w-[80%] accent-brand-500 z-20"
+                title="拖动对比裁切前后"
+            />
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,15 +1,70 @@
 import React, { useState } from 'react';
-import { Undo2, Redo2, Download, FoldVertical, FoldHorizontal, Shrink, Eraser, Sparkles, Scissors, Settings2, History } from 'lucide-react';
-import { CropMode } from '../../../types';
+import { Undo2, Redo2, Download, FoldVertical, FoldHorizontal, Shrink, Eraser, Sparkles, Scissors, Settings2, History, Magnet, ArrowUpDown, Grid3X3, RotateCw } from 'lucide-react';
+import { CropMode, CropSelection, ResampleFilter, SmartStrategy } from '../../../types';
+import { GridTool, DetectionSettings, GapProposal, GapSettings, InsertSettings, PreviewView, RedactSettings, ShiftDirection } from '../types';
+import { DetectionPanel } from './DetectionPanel';
+import { GapPanel } from './GapPanel';
+import { InsertPanel } from './InsertPanel';
+import { RedactPanel } from './RedactPanel';
+import { PreviewPanel } from './PreviewPanel';
+import { SelectionPanel } from './SelectionPanel';
 
 interface ControlPanelProps {
   historyIndex: number;
   historyLength: number;
   hasSelection: boolean;
+  selections: CropSelection[];
+  activeSelection: number | null;
+  onChangeSelection: (index: number, selection: CropSelection) => void;
+  onDeleteSelection: (index: number) => void;
+  onShiftDeleteSelection: (index: number, direction: ShiftDirection) => void;
   isEditingGrid: boolean;
+  autoDeskew: boolean;
+  onToggleAutoDeskew: () => void;
+  isDeskewing: boolean;
+  deskewProgress: number; // 0..1 while deskewing
+  deskewAngle: number | null;
+  onDeskew: () => void;
+  onCancelDeskew: () => void;
+  isReordering: boolean;
+  onToggleReorder: () => void;
+  isInserting: boolean;
+  onToggleInsert: () => void;
+  insertSettings: InsertSettings;
+  onChangeInsertSettings: (settings: InsertSettings) => void;
+  redactSettings: RedactSettings;
+  onChangeRedactSettings: (settings: RedactSettings) => void;
+  onRedact: () => void;
   smartMode: boolean;
-  eraserMode: 'segment' | 'line';
-  setEraserMode: (mode: 'segment' | 'line') => void;
+  smartStrategy: SmartStrategy;
+  setSmartStrategy: (strategy: SmartStrategy) => void;
+  resampleFilter: ResampleFilter;
+  setResampleFilter: (filter: ResampleFilter) => void;
+  redrawBorders: boolean;
+  onToggleRedrawBorders: () => void;
+  gridTool: GridTool;
+  setGridTool: (tool: GridTool) => void;
+  snapToEdges: boolean;
+  onToggleSnapToEdges: () => void;
+  detectionSettings: DetectionSettings;
+  onChangeDetectionSettings: (settings: DetectionSettings) => void;
+  gapSettings: GapSettings;
+  onChangeGapSettings: (settings: GapSettings) => void;
+  gapProposals: GapProposal[];
+  isFindingGaps: boolean;
+  onFindGaps: () => void;
+  onSelectAllGaps: (selected: boolean) => void;
+  onApplyGaps: () => void;
+  onCancelGaps: () => void;
+  isPreviewing: boolean;
+  onTogglePreview: () => void;
+  previewMode: CropMode;
+  onChangePreviewMode: (mode: CropMode) => void;
+  previewView: PreviewView;
+  onChangePreviewView: (view: PreviewView) => void;
+  isRenderingPreview: boolean;
+  hasPreview: boolean;
+  onApplyPreview: () => void;
   onToggleSmartMode: () => void;
   onToggleEraser: () => void;
   onCrop: (mode: CropMode) => void;
@@ -21,8 +76,18 @@ interface ControlPanelProps {
 type MobileTab = 'crop' | 'tools' | 'history';
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
-  historyIndex, historyLength, hasSelection, isEditingGrid, smartMode,
-  eraserMode, setEraserMode,
+  historyIndex, historyLength, hasSelection, isEditingGrid, isReordering, onToggleReorder, smartMode,
+  isInserting, onToggleInsert, insertSettings, onChangeInsertSettings,
+  autoDeskew, onToggleAutoDeskew, isDeskewing, deskewProgress, deskewAngle, onDeskew, onCancelDeskew,
+  redactSettings, onChangeRedactSettings, onRedact,
+  selections, activeSelection, onChangeSelection, onDeleteSelection, onShiftDeleteSelection,
+  smartStrategy, setSmartStrategy, resampleFilter, setResampleFilter, redrawBorders, onToggleRedrawBorders,
+  gridTool, setGridTool, snapToEdges, onToggleSnapToEdges,
+  detectionSettings, onChangeDetectionSettings,
+  gapSettings, onChangeGapSettings, gapProposals, isFindingGaps,
+  onFindGaps, onSelectAllGaps, onApplyGaps, onCancelGaps,
+  isPreviewing, onTogglePreview, previewMode, onChangePreviewMode, previewView, onChangePreviewView,
+  isRenderingPreview, hasPreview, onApplyPreview,
   onToggleSmartMode, onToggleEraser, onCrop, onUndo, onRedo, onDownload
 }) => {
   const [mobileTab, setMobileTab] = useState<MobileTab | null>(null);
@@ -31,6 +96,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     setMobileTab(prev => prev === tab ? null : tab);
   };
 
+  const activeRect = activeSelection !== null ? selections[activeSelection] : undefined;
+
   // --- Components for Reusability ---
 
   const EraserControls = ({ isMobile }: { isMobile?: boolean }) => (
@@ -48,37 +115,94 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             }`}
         >
             <Eraser size={18} />
-            <span className="font-medium">{isEditingGrid ? '完成编辑' : '手动擦除表格线'}</span>
+            <span className="font-medium">{isEditingGrid ? '完成编辑' : '手动编辑表格线'}</span>
         </button>
         
         {isEditingGrid && (
             <div className={`flex rounded-lg p-1 border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
-            <button 
-                onClick={() => setEraserMode('segment')} 
-                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
-                    eraserMode === 'segment' 
-                      ? isMobile ? 'bg-zinc-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' 
-                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400'
-                }`}
-            >
-                擦除线段
-            </button>
-            <button 
-                onClick={() => setEraserMode('line')} 
-                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
-                    eraserMode === 'line' 
-                      ? isMobile ? 'bg-zinc-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' 
-                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400'
+            {([['segment', '擦除线段'], ['line', '擦除整行'], ['draw', '绘制线条'], ['move', '移动线条']] as [GridTool, string][]).map(([tool, label]) => (
+                <button 
+                    key={tool}
+                    onClick={() => setGridTool(tool)} 
+                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                        gridTool === tool 
+                          ? isMobile ? 'bg-zinc-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' 
+                          : 'text-slate-500 hover:text-slate-700 dark:text-slate-400'
+                    }`}
+                >
+                    {label}
+                </button>
+            ))}
+            </div>
+        )}
+
+        {isEditingGrid && gridTool === 'draw' && (
+            <button
+                onClick={onToggleSnapToEdges}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-xs font-medium transition-all ${
+                    isMobile ? 'bg-zinc-800 border-zinc-700 text-zinc-300' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
                 }`}
             >
-                擦除整行
+                <span className="flex items-center gap-2">
+                    <Magnet size={14} className={snapToEdges ? 'text-brand-500' : 'text-slate-400'} />
+                    吸附到内容边缘
+                </span>
+                <span className={snapToEdges ? 'text-brand-500' : 'text-slate-400'}>{snapToEdges ? '开' : '关'}</span>
             </button>
-            </div>
         )}
     </div>
   );
 
+  const ReorderControl = ({ isMobile }: { isMobile?: boolean }) => (
+    <button 
+        onClick={onToggleReorder}
+        className={`w-full flex items-center justify-center gap-2 p-3 rounded-xl border transition-all ${
+            isMobile 
+              ? isReordering 
+                  ? 'bg-brand-900/20 border-brand-500/50 text-brand-400' 
+                  : 'bg-zinc-800 border-zinc-700 text-zinc-300'
+              : isReordering 
+                ? 'bg-brand-50 dark:bg-brand-900/20 border-brand-500 text-brand-600 dark:text-brand-400' 
+                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+        }`}
+    >
+        <ArrowUpDown size={18} />
+        <span className="font-medium">{isReordering ? '完成排序' : '拖动调整行列顺序'}</span>
+    </button>
+  );
+
+  const DeskewControls = ({ isMobile }: { isMobile?: boolean }) => (
+    <div className="space-y-1 w-full">
+    <div className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg border text-xs font-medium ${
+        isMobile ? 'bg-zinc-800 border-zinc-700 text-zinc-300' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+    }`}>
+        <button onClick={onToggleAutoDeskew} className="flex-1 flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+                <RotateCw size={14} className={autoDeskew ? 'text-brand-500' : 'text-slate-400'} />
+                载入时自动纠偏
+            </span>
+            <span className={autoDeskew ? 'text-brand-500' : 'text-slate-400'}>{autoDeskew ? '开' : '关'}</span>
+        </button>
+        {/* While straightening, the same button cancels it */}
+        <button
+            disabled={!isDeskewing && isEditingGrid}
+            onClick={isDeskewing ? onCancelDeskew : onDeskew}
+            title={isDeskewing ? '取消纠偏' : undefined}
+            className={`shrink-0 px-2 py-1 rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${isMobile ? 'bg-zinc-700' : 'bg-slate-100 dark:bg-slate-700'}`}
+        >
+            {isDeskewing ? `取消纠偏 ${Math.round(deskewProgress * 100)}%` : '立即纠偏'}
+        </button>
+    </div>
+    {deskewAngle !== null && (
+        <p className="text-[10px] text-slate-400 px-1">
+            {deskewAngle === 0 ? '未检测到倾斜' : `已旋转 ${(-deskewAngle).toFixed(2)}°`}
+        </p>
+    )}
+    </div>
+  );
+
   const SmartModeControl = ({ isMobile }: { isMobile?: boolean }) => (
+    <div className="space-y-2 w-full">
     <div 
         onClick={onToggleSmartMode}
         className={`w-full flex items-center justify-between p-3 rounded-xl border cursor-pointer transition-all ${
@@ -99,6 +223,59 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${smartMode ? 'translate-x-4' : 'translate-x-0'}`} />
         </div>
     </div>
+
+    {smartMode && (
+        <div className={`flex rounded-lg p-1 border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        {([['cut', '仅裁切'], ['squish', '压缩'], ['seam', '内容感知']] as [SmartStrategy, string][]).map(([strategy, label]) => (
+            <button 
+                key={strategy}
+                onClick={() => setSmartStrategy(strategy)} 
+                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                    smartStrategy === strategy 
+                      ? isMobile ? 'bg-zinc-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' 
+                      : 'text-slate-500 hover:text-slate-700 dark:text-slate-400'
+                }`}
+            >
+                {label}
+            </button>
+        ))}
+        </div>
+    )}
+
+    {smartMode && smartStrategy === 'squish' && (
+        <div className={`flex items-center gap-2 px-1 text-xs ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`}>
+            <span className="shrink-0">压缩采样</span>
+            <div className={`flex flex-1 rounded-lg p-1 border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+            {([['nearest', '最近邻'], ['box', '区域平均'], ['lanczos', 'Lanczos']] as [ResampleFilter, string][]).map(([filter, label]) => (
+                <button 
+                    key={filter}
+                    onClick={() => setResampleFilter(filter)} 
+                    className={`flex-1 py-1 text-[11px] font-medium rounded-md transition-all ${
+                        resampleFilter === filter 
+                          ? isMobile ? 'bg-zinc-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' 
+                          : 'text-slate-500 hover:text-slate-700 dark:text-slate-400'
+                    }`}
+                >
+                    {label}
+                </button>
+            ))}
+            </div>
+        </div>
+    )}
+
+    <button
+        onClick={onToggleRedrawBorders}
+        className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-xs font-medium transition-all ${
+            isMobile ? 'bg-zinc-800 border-zinc-700 text-zinc-300' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+        }`}
+    >
+        <span className="flex items-center gap-2">
+            <Grid3X3 size={14} className={redrawBorders ? 'text-brand-500' : 'text-slate-400'} />
+            接缝处补画表格线
+        </span>
+        <span className={redrawBorders ? 'text-brand-500' : 'text-slate-400'}>{redrawBorders ? '开' : '关'}</span>
+    </button>
+    </div>
   );
 
   const CropButtons = ({ layout, isMobile }: { layout: 'grid' | 'row', isMobile?: boolean }) => (
@@ -250,14 +427,53 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <h2 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-4">工具</h2>
             <div className="mb-4 space-y-3">
                 <EraserControls />
+                <ReorderControl />
+                <InsertPanel
+                    isInserting={isInserting} onToggle={onToggleInsert} disabled={isEditingGrid}
+                    settings={insertSettings} onChange={onChangeInsertSettings}
+                />
+                <DetectionPanel settings={detectionSettings} onChange={onChangeDetectionSettings} />
+                <DeskewControls />
                 <SmartModeControl />
                 <p className="text-[10px] text-slate-400 px-1 leading-normal">
-                    开启智能避让后，自动保护文字不被截断。
+                    开启智能避让后，自动保护文字不被截断。空白不足时：仅裁切会删去最空的行，压缩会等比缩放内容，内容感知会沿低细节路径逐像素收缩。
                 </p>
             </div>
 
             <h2 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-4">裁切操作</h2>
             <CropButtons layout="grid" />
+            {activeRect && activeSelection !== null && (
+                <div className="mb-4">
+                    <SelectionPanel
+                        selection={activeRect} index={activeSelection} count={selections.length}
+                        onChange={(rect) => onChangeSelection(activeSelection, rect)}
+                        onDelete={() => onDeleteSelection(activeSelection)}
+                        onShiftDelete={(direction) => onShiftDeleteSelection(activeSelection, direction)}
+                    />
+                </div>
+            )}
+            <div className="mb-4">
+                <RedactPanel
+                    settings={redactSettings} onChange={onChangeRedactSettings}
+                    disabled={!hasSelection || isEditingGrid} onApply={onRedact}
+                />
+            </div>
+            <div className="mb-4">
+                <PreviewPanel
+                    isPreviewing={isPreviewing} onToggle={onTogglePreview}
+                    mode={previewMode} onChangeMode={onChangePreviewMode}
+                    view={previewView} onChangeView={onChangePreviewView}
+                    hasSelection={hasSelection} isRendering={isRenderingPreview}
+                    canApply={hasPreview && !isRenderingPreview && !isEditingGrid} onApply={onApplyPreview}
+                />
+            </div>
+
+            <h2 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-4">一键去空白</h2>
+            <GapPanel
+                settings={gapSettings} onChange={onChangeGapSettings}
+                proposals={gapProposals} isFinding={isFindingGaps} disabled={isEditingGrid}
+                onFind={onFindGaps} onSelectAll={onSelectAllGaps} onApply={onApplyGaps} onCancel={onCancelGaps}
+            />
         </div>
 
         <div className="flex-none p-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-200 dark:border-slate-800 flex flex-col gap-4 z-10">
@@ -292,6 +508,34 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                              <p className="text-xs text-zinc-500">{hasSelection ? '已选择区域' : '请先框选'}</p>
                          </div>
                          <CropButtons layout="row" isMobile />
+                         {activeRect && activeSelection !== null && (
+                             <SelectionPanel
+                                 selection={activeRect} index={activeSelection} count={selections.length}
+                                 onChange={(rect) => onChangeSelection(activeSelection, rect)}
+                                 onDelete={() => onDeleteSelection(activeSelection)}
+                                 onShiftDelete={(direction) => onShiftDeleteSelection(activeSelection, direction)}
+                                 isMobile
+                             />
+                         )}
+                         <RedactPanel
+                             settings={redactSettings} onChange={onChangeRedactSettings}
+                             disabled={!hasSelection || isEditingGrid} onApply={onRedact}
+                             isMobile
+                         />
+                         <PreviewPanel
+                             isPreviewing={isPreviewing} onToggle={onTogglePreview}
+                             mode={previewMode} onChangeMode={onChangePreviewMode}
+                             view={previewView} onChangeView={onChangePreviewView}
+                             hasSelection={hasSelection} isRendering={isRenderingPreview}
+                             canApply={hasPreview && !isRenderingPreview && !isEditingGrid} onApply={onApplyPreview}
+                             isMobile
+                         />
+                         <GapPanel
+                             settings={gapSettings} onChange={onChangeGapSettings}
+                             proposals={gapProposals} isFinding={isFindingGaps} disabled={isEditingGrid}
+                             onFind={onFindGaps} onSelectAll={onSelectAllGaps} onApply={onApplyGaps} onCancel={onCancelGaps}
+                             isMobile
+                         />
                      </div>
                  )}
                  {mobileTab === 'tools' && (
@@ -302,6 +546,14 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                          <div className="flex gap-2">
                              <div className="flex-1"><EraserControls isMobile /></div>
                          </div>
+                         <ReorderControl isMobile />
+                         <InsertPanel
+                             isInserting={isInserting} onToggle={onToggleInsert} disabled={isEditingGrid}
+                             settings={insertSettings} onChange={onChangeInsertSettings}
+                             isMobile
+                         />
+                         <DetectionPanel settings={detectionSettings} onChange={onChangeDetectionSettings} isMobile />
+                         <DeskewControls isMobile />
                          <SmartModeControl isMobile />
                      </div>
                  )}
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown } from 'lucide-react';
+import { DetectionSettings, DetectionPreset } from '../types';
+import { DETECTION_PRESETS } from '../logic/gridCore';
+
+interface DetectionPanelProps {
+  settings: DetectionSettings;
+  onChange: (settings: DetectionSettings) => void;
+  isMobile?: boolean;
+}
+
+const PRESET_LABELS: [DetectionPreset, string][] = [
+  ['default', '默认'],
+  ['faint', '浅色边框'],
+  ['dark', '深色主题'],
+  ['dense', '密集文字']
+];
+
+const SLIDERS: { key: keyof DetectionSettings; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'contrastThreshold', label: '对比度阈值', min: 5, max: 150, step: 1, format: v => `${v}` },
+  { key: 'minSegmentLength', label: '最短线段', min: 10, max: 300, step: 5, format: v => `${v}px` },
+  { key: 'minSegmentRatio', label: '最短线段比例', min: 0, max: 0.2, step: 0.005, format: v => `${(v * 100).toFixed(1)}%` },
+  { key: 'gapTolerance', label: '断线容差', min: 0, max: 30, step: 1, format: v => `${v}px` },
+  { key: 'posTolerance', label: '合并容差', min: 1, max: 15, step: 1, format: v => `${v}px` }
+];
+
+const isSamePreset = (a: DetectionSettings, b: DetectionSettings) =>
+  SLIDERS.every(({ key }) => a[key] === b[key]);
+
+// Declared at module level (not inline in ControlPanel) so range inputs keep their
+// identity across re-renders and can be dragged continuously.
+export const DetectionPanel: React.FC<DetectionPanelProps> = ({ settings, onChange, isMobile }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className={`w-full rounded-xl border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+      <button
+          onClick={() => setOpen(!open)}
+          className={`w-full flex items-center justify-between p-3 ${isMobile ? 'text-zinc-300' : 'text-slate-700 dark:text-slate-300'}`}
+      >
+          <span className="flex items-center gap-2">
+              <SlidersHorizontal size={18} className="text-slate-400" />
+              <span className="font-medium text-sm">检测灵敏度</span>
+          </span>
+          <ChevronDown size={16} className={`text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+          <div className="px-3 pb-3 space-y-3">
+              <div className="grid grid-cols-4 gap-1">
+                  {PRESET_LABELS.map(([preset, label]) => (
+                      <button
+                          key={preset}
+                          onClick={() => onChange(DETECTION_PRESETS[preset])}
+                          className={`py-1.5 text-[11px] font-medium rounded-md transition-all ${
+                              isSamePreset(settings, DETECTION_PRESETS[preset])
+                                ? 'bg-brand-500 text-white'
+                                : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                          }`}
+                      >
+                          {label}
+                      </button>
+                  ))}
+              </div>
+
+              {SLIDERS.map(({ key, label, min, max, step, format }) => (
+                  <label key={key} className="block">
+                      <div className={`flex justify-between text-[11px] mb-1 ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                          <span>{label}</span>
+                          <span className="font-mono">{format(settings[key])}</span>
+                      </div>
+                      <input
+                          type="range"
+                          min={min}
+                          max={max}
+                          step={step}
+                          value={settings[key]}
+                          onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+                          className="w-full accent-brand-500"
+                      />
+                  </label>
+              ))}
+          </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 
 import React from 'react';
-import { ZoomIn, ZoomOut, Scan, Maximize2, Smartphone, Trash2, Grid3X3, Eraser } from 'lucide-react';
+import { AlertTriangle, ZoomIn, ZoomOut, Scan, Maximize2, Smartphone, Trash2, Grid3X3, Eraser, PenLine, Move, ArrowUpDown, UnfoldVertical } from 'lucide-react';
+import { clampScale } from '../logic/viewport';
+import { GridTool } from '../types';
 
 interface FloatingControlsProps {
   scale: number;
@@ -10,11 +12,15 @@ interface FloatingControlsProps {
   onClearSelection: () => void;
   selectionCount: number;
   isEditingGrid: boolean;
+  gridTool: GridTool;
+  isReordering: boolean;
+  isInserting: boolean;
   showToast: boolean;
+  errorMessage: string | null;
 }
 
 export const FloatingControls: React.FC<FloatingControlsProps> = ({
-  scale, setScale, onFit, hasSelection, onClearSelection, selectionCount, isEditingGrid, showToast
+  scale, setScale, onFit, hasSelection, onClearSelection, selectionCount, isEditingGrid, gridTool, isReordering, isInserting, showToast, errorMessage
 }) => {
   const stop = (e: React.MouseEvent | React.TouchEvent) => e.stopPropagation();
 
@@ -24,13 +30,13 @@ export const FloatingControls: React.FC<FloatingControlsProps> = ({
           onMouseDown={stop} onTouchStart={stop} onClick={stop}
           className="absolute bottom-4 left-4 md:bottom-6 md:left-6 flex gap-2 bg-white/90 dark:bg-slate-900/90 backdrop-blur border border-slate-200 dark:border-slate-700 p-1.5 md:p-2 rounded-xl shadow-xl z-20 pointer-events-auto items-center"
       >
-        <button onClick={() => setScale(s => Math.max(0.1, s - 0.1))} className="p-1.5 md:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-600 dark:text-slate-300">
+        <button onClick={() => setScale(s => clampScale(s - 0.1))} className="p-1.5 md:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-600 dark:text-slate-300">
             <ZoomOut size={18} />
         </button>
         <div className="w-10 md:w-12 flex items-center justify-center text-xs md:text-sm font-mono text-slate-500 dark:text-slate-400 select-none">
             {Math.round(scale * 100)}%
         </div>
-        <button onClick={() => setScale(s => Math.min(5, s + 0.1))} className="p-1.5 md:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-600 dark:text-slate-300">
+        <button onClick={() => setScale(s => clampScale(s + 0.1))} className="p-1.5 md:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-600 dark:text-slate-300">
             <ZoomIn size={18} />
         </button>
         <div className="w-px h-6 md:h-8 bg-slate-200 dark:bg-slate-700 mx-1"></div>
@@ -55,19 +61,46 @@ export const FloatingControls: React.FC<FloatingControlsProps> = ({
           </button>
       )}
       
-      <div className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-slate-900/80 text-white text-xs rounded-full pointer-events-none backdrop-blur-sm shadow-lg border border-white/10 z-10 flex items-center gap-2 transition-opacity duration-500 ${(showToast || isEditingGrid) ? 'opacity-100' : 'opacity-0'}`}>
-          {isEditingGrid ? (
+      <div className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-slate-900/80 text-white text-xs rounded-full pointer-events-none backdrop-blur-sm shadow-lg border border-white/10 z-10 flex items-center gap-2 transition-opacity duration-500 ${(showToast || isEditingGrid || isReordering || isInserting) ? 'opacity-100' : 'opacity-0'}`}>
+          {isEditingGrid && gridTool === 'draw' ? (
+              <>
+                  <PenLine size={14} className="text-brand-400 animate-pulse" />
+                  <span>拖拽绘制水平或垂直线条</span>
+              </>
+          ) : isEditingGrid && gridTool === 'move' ? (
+              <>
+                  <Move size={14} className="text-brand-400 animate-pulse" />
+                  <span>拖动线条调整位置，拖动端点调整长度</span>
+              </>
+          ) : isEditingGrid ? (
               <>
                   <Eraser size={14} className="text-red-400 animate-pulse" />
                   <span>滑动擦除线段 (按住 Alt 删除整行)</span>
               </>
+          ) : isReordering ? (
+              <>
+                  <ArrowUpDown size={14} className="text-brand-400 animate-pulse" />
+                  <span>按住单元格上下拖动移动整行，左右拖动移动整列</span>
+              </>
+          ) : isInserting ? (
+              <>
+                  <UnfoldVertical size={14} className="text-brand-400 animate-pulse" />
+                  <span>点击图片插入空白，点在表格线上插在线后</span>
+              </>
           ) : (
               <>
                   <Grid3X3 size={14} className="text-brand-400 animate-pulse" />
-                  <span>点按单元格自动选中，拖拽手动框选</span>
+                  <span>点按单元格自动选中，拖拽手动框选；Shift 选整行，Alt/长按选整列</span>
               </>
           )}
       </div>
+
+      {errorMessage && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 max-w-[90%] px-4 py-2 bg-red-600/90 text-white text-xs rounded-lg pointer-events-none backdrop-blur-sm shadow-lg z-20 flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0" />
+              <span>{errorMessage}</span>
+          </div>
+      )}
     </>
   );
 };
@@ -0,0 +1,98 @@
+import React from 'react';
+import { ScanSearch, Check, X } from 'lucide-react';
+import { GapProposal, GapSettings } from '../types';
+
+interface GapPanelProps {
+  settings: GapSettings;
+  onChange: (settings: GapSettings) => void;
+  proposals: GapProposal[];
+  isFinding: boolean;
+  disabled: boolean;
+  onFind: () => void;
+  onSelectAll: (selected: boolean) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  isMobile?: boolean;
+}
+
+// Module-level so its number inputs keep focus across ControlPanel re-renders
+export const GapPanel: React.FC<GapPanelProps> = ({
+  settings, onChange, proposals, isFinding, disabled,
+  onFind, onSelectAll, onApply, onCancel, isMobile
+}) => {
+  const selectedCount = proposals.filter(p => p.selected).length;
+  const labelClass = `text-[11px] ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`;
+  const inputClass = `w-full mt-1 px-2 py-1 rounded-md text-xs font-mono border ${
+      isMobile ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200'
+  }`;
+  const chipClass = (active: boolean) => `flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${
+      active ? 'bg-brand-500 text-white' : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+  }`;
+
+  return (
+    <div className={`w-full p-3 rounded-xl border space-y-3 ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        <div className="grid grid-cols-2 gap-2">
+            <label className={labelClass}>
+                最小空白 (px)
+                <input
+                    type="number" min={1} value={settings.minGap}
+                    onChange={(e) => onChange({ ...settings, minGap: Math.max(1, Number(e.target.value) || 1) })}
+                    className={inputClass}
+                />
+            </label>
+            <label className={labelClass}>
+                保留边距 (px)
+                <input
+                    type="number" min={0} value={settings.padding}
+                    onChange={(e) => onChange({ ...settings, padding: Math.max(0, Number(e.target.value) || 0) })}
+                    className={inputClass}
+                />
+            </label>
+        </div>
+
+        <div className="flex gap-1">
+            <button onClick={() => onChange({ ...settings, rows: !settings.rows })} className={chipClass(settings.rows)}>空白行</button>
+            <button onClick={() => onChange({ ...settings, columns: !settings.columns })} className={chipClass(settings.columns)}>空白列</button>
+        </div>
+
+        {proposals.length === 0 ? (
+            <button
+                disabled={disabled || isFinding || (!settings.rows && !settings.columns)}
+                onClick={onFind}
+                className={`w-full flex items-center justify-center gap-2 p-2.5 rounded-lg border text-sm font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isMobile ? 'bg-zinc-700 border-zinc-600 text-zinc-200' : 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600'
+                }`}
+            >
+                <ScanSearch size={16} />
+                {isFinding ? '正在查找…' : '自动查找空白'}
+            </button>
+        ) : (
+            <div className="space-y-2">
+                <div className={`flex items-center justify-between ${labelClass}`}>
+                    <span>已选 {selectedCount} / {proposals.length} 处（点按图中区域切换）</span>
+                    <button onClick={() => onSelectAll(selectedCount < proposals.length)} className="text-brand-500 font-medium">
+                        {selectedCount < proposals.length ? '全选' : '全不选'}
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onCancel}
+                        className={`flex-1 flex items-center justify-center gap-1 p-2 rounded-lg border text-xs font-medium ${
+                            isMobile ? 'bg-zinc-700 border-zinc-600 text-zinc-300' : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300'
+                        }`}
+                    >
+                        <X size={14} /> 取消
+                    </button>
+                    <button
+                        disabled={selectedCount === 0}
+                        onClick={onApply}
+                        className="flex-1 flex items-center justify-center gap-1 p-2 rounded-lg text-xs font-bold bg-green-600 hover:bg-green-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Check size={14} /> 删除选中空白
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
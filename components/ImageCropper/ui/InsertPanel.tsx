@@ -0,0 +1,78 @@
+import React from 'react';
+import { UnfoldVertical } from 'lucide-react';
+import { InsertSettings } from '../types';
+import { MAX_INSERT_AMOUNT } from '../logic/insertSpace';
+
+interface InsertPanelProps {
+  isInserting: boolean;
+  onToggle: () => void;
+  settings: InsertSettings;
+  onChange: (settings: InsertSettings) => void;
+  disabled: boolean;
+  isMobile?: boolean;
+}
+
+const AXIS_LABELS: [InsertSettings['axis'], string][] = [
+  ['horizontal', '插入行'],
+  ['vertical', '插入列']
+];
+
+// Module-level so its number input keeps focus across ControlPanel re-renders
+export const InsertPanel: React.FC<InsertPanelProps> = ({ isInserting, onToggle, settings, onChange, disabled, isMobile }) => {
+  const labelClass = `text-[11px] ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`;
+  const inputClass = `w-full mt-1 px-2 py-1 rounded-md text-xs font-mono border ${
+      isMobile ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200'
+  }`;
+  const chipClass = (active: boolean) => `flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${
+      active ? 'bg-brand-500 text-white' : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+  }`;
+
+  return (
+    <div className={`w-full rounded-xl border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        <button
+            disabled={disabled}
+            onClick={onToggle}
+            className={`w-full flex items-center justify-between p-3 disabled:opacity-50 disabled:cursor-not-allowed ${isMobile ? 'text-zinc-300' : 'text-slate-700 dark:text-slate-300'}`}
+        >
+            <span className="flex items-center gap-2">
+                <UnfoldVertical size={18} className={isInserting ? 'text-brand-500' : 'text-slate-400'} />
+                <span className="font-medium text-sm">插入空白</span>
+            </span>
+            <span className={`text-xs ${isInserting ? 'text-brand-500' : 'text-slate-400'}`}>{isInserting ? '开' : '关'}</span>
+        </button>
+
+        {isInserting && (
+            <div className="px-3 pb-3 space-y-2">
+                <div className="flex gap-1">
+                    {AXIS_LABELS.map(([axis, label]) => (
+                        <button key={axis} onClick={() => onChange({ ...settings, axis })} className={chipClass(settings.axis === axis)}>{label}</button>
+                    ))}
+                </div>
+
+                <label className={`block ${labelClass}`}>
+                    插入宽度 (px)
+                    <input
+                        type="number" min={1} max={MAX_INSERT_AMOUNT} value={settings.amount}
+                        onChange={(e) => onChange({ ...settings, amount: Math.max(1, Math.min(MAX_INSERT_AMOUNT, Number(e.target.value) || 1)) })}
+                        className={inputClass}
+                    />
+                </label>
+
+                <div className="flex items-center gap-1">
+                    <button onClick={() => onChange({ ...settings, color: null })} className={chipClass(settings.color === null)}>取样背景色</button>
+                    <button onClick={() => onChange({ ...settings, color: settings.color ?? '#ffffff' })} className={chipClass(settings.color !== null)}>指定颜色</button>
+                    {settings.color !== null && (
+                        <input
+                            type="color" value={settings.color}
+                            onChange={(e) => onChange({ ...settings, color: e.target.value })}
+                            className="w-8 h-7 shrink-0 rounded cursor-pointer bg-transparent"
+                        />
+                    )}
+                </div>
+
+                <p className={labelClass}>点击图片放置；点在表格线上时插在线的下方/右侧，表格线随之延长。</p>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Eye, EyeOff, Check } from 'lucide-react';
+import { CropMode } from '../../../types';
+import { PreviewView } from '../types';
+
+interface PreviewPanelProps {
+  isPreviewing: boolean;
+  onToggle: () => void;
+  mode: CropMode;
+  onChangeMode: (mode: CropMode) => void;
+  view: PreviewView;
+  onChangeView: (view: PreviewView) => void;
+  hasSelection: boolean;
+  isRendering: boolean;
+  canApply: boolean;
+  onApply: () => void;
+  isMobile?: boolean;
+}
+
+const MODE_LABELS: [CropMode, string][] = [
+  ['horizontal', '删除行'],
+  ['vertical', '删除列'],
+  ['both', '同时删除']
+];
+
+const VIEW_LABELS: [PreviewView, string][] = [
+  ['slider', '滑块对比'],
+  ['side', '并排']
+];
+
+export const PreviewPanel: React.FC<PreviewPanelProps> = ({
+  isPreviewing, onToggle, mode, onChangeMode, view, onChangeView,
+  hasSelection, isRendering, canApply, onApply, isMobile
+}) => {
+  const labelClass = `text-[11px] ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`;
+  const chipClass = (active: boolean) => `flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${
+      active ? 'bg-brand-500 text-white' : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+  }`;
+
+  return (
+    <div className={`w-full rounded-xl border ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        <button
+            onClick={onToggle}
+            className={`w-full flex items-center justify-between p-3 ${isMobile ? 'text-zinc-300' : 'text-slate-700 dark:text-slate-300'}`}
+        >
+            <span className="flex items-center gap-2">
+                {isPreviewing ? <Eye size={18} className="text-brand-500" /> : <EyeOff size={18} className="text-slate-400" />}
+                <span className="font-medium text-sm">裁切预览</span>
+            </span>
+            <span className={`text-xs ${isPreviewing ? 'text-brand-500' : 'text-slate-400'}`}>{isPreviewing ? '开' : '关'}</span>
+        </button>
+
+        {isPreviewing && (
+            <div className="px-3 pb-3 space-y-2">
+                <div className="flex gap-1">
+                    {MODE_LABELS.map(([m, label]) => (
+                        <button key={m} onClick={() => onChangeMode(m)} className={chipClass(mode === m)}>{label}</button>
+                    ))}
+                </div>
+                <div className="flex gap-1">
+                    {VIEW_LABELS.map(([v, label]) => (
+                        <button key={v} onClick={() => onChangeView(v)} className={chipClass(view === v)}>{label}</button>
+                    ))}
+                </div>
+
+                <div className={`flex items-center gap-3 ${labelClass}`}>
+                    <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-red-500/60" />裁掉</span>
+                    <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-amber-400/70" />压缩</span>
+                    <span className="ml-auto">{!hasSelection ? '请先框选' : isRendering ? '正在生成…' : ''}</span>
+                </div>
+
+                <button
+                    disabled={!canApply}
+                    onClick={onApply}
+                    className="w-full flex items-center justify-center gap-1 p-2 rounded-lg text-xs font-bold bg-green-600 hover:bg-green-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Check size={14} /> 应用预览结果
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
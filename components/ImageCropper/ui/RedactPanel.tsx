@@ -0,0 +1,69 @@
+import React from 'react';
+import { EyeOff } from 'lucide-react';
+import { RedactSettings, RedactStyle } from '../types';
+
+interface RedactPanelProps {
+  settings: RedactSettings;
+  onChange: (settings: RedactSettings) => void;
+  disabled: boolean;
+  onApply: () => void;
+  isMobile?: boolean;
+}
+
+const STYLE_LABELS: [RedactStyle, string][] = [
+  ['fill', '纯色填充'],
+  ['blur', '高斯模糊'],
+  ['pixelate', '马赛克']
+];
+
+// Module-level so its number input keeps focus across ControlPanel re-renders
+export const RedactPanel: React.FC<RedactPanelProps> = ({ settings, onChange, disabled, onApply, isMobile }) => {
+  const labelClass = `text-[11px] ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`;
+  const inputClass = `w-full mt-1 px-2 py-1 rounded-md text-xs font-mono border ${
+      isMobile ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200'
+  }`;
+  const chipClass = (active: boolean) => `flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${
+      active ? 'bg-brand-500 text-white' : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+  }`;
+
+  return (
+    <div className={`w-full p-3 rounded-xl border space-y-2 ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        <div className="flex gap-1">
+            {STYLE_LABELS.map(([style, label]) => (
+                <button key={style} onClick={() => onChange({ ...settings, style })} className={chipClass(settings.style === style)}>{label}</button>
+            ))}
+        </div>
+
+        {settings.style === 'fill' ? (
+            <div className="flex items-center gap-1">
+                <button onClick={() => onChange({ ...settings, color: null })} className={chipClass(settings.color === null)}>单元格底色</button>
+                <button onClick={() => onChange({ ...settings, color: settings.color ?? '#000000' })} className={chipClass(settings.color !== null)}>指定颜色</button>
+                {settings.color !== null && (
+                    <input
+                        type="color" value={settings.color}
+                        onChange={(e) => onChange({ ...settings, color: e.target.value })}
+                        className="w-8 h-7 shrink-0 rounded cursor-pointer bg-transparent"
+                    />
+                )}
+            </div>
+        ) : (
+            <label className={`block ${labelClass}`}>
+                {settings.style === 'blur' ? '模糊半径 (px)' : '马赛克大小 (px)'}
+                <input
+                    type="number" min={1} value={settings.strength}
+                    onChange={(e) => onChange({ ...settings, strength: Math.max(1, Number(e.target.value) || 1) })}
+                    className={inputClass}
+                />
+            </label>
+        )}
+
+        <button
+            disabled={disabled}
+            onClick={onApply}
+            className="w-full flex items-center justify-center gap-1 p-2 rounded-lg text-xs font-bold bg-slate-700 hover:bg-slate-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+            <EyeOff size={14} /> 遮盖所选区域（保留表格线）
+        </button>
+    </div>
+  );
+};
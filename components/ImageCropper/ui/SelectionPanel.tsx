@@ -0,0 +1,74 @@
+import React from 'react';
+import { Trash2, ArrowUp, ArrowLeft } from 'lucide-react';
+import { ShiftDirection } from '../types';
+import { CropMode, CropSelection, Rect } from '../../../types';
+
+interface SelectionPanelProps {
+  selection: CropSelection;
+  index: number;
+  count: number;
+  onChange: (selection: CropSelection) => void;
+  onDelete: () => void;
+  onShiftDelete: (direction: ShiftDirection) => void;
+  isMobile?: boolean;
+}
+
+const FIELDS: [keyof Rect, string][] = [['x', 'X'], ['y', 'Y'], ['w', '宽'], ['h', '高']];
+
+// Untagged selections follow whichever crop button is pressed
+const AXIS_LABELS: [CropMode | undefined, string][] = [
+  [undefined, '跟随按钮'],
+  ['horizontal', '删行'],
+  ['vertical', '删列'],
+  ['both', '行+列']
+];
+
+// Module-level so its number inputs keep focus across ControlPanel re-renders
+export const SelectionPanel: React.FC<SelectionPanelProps> = ({ selection, index, count, onChange, onDelete, onShiftDelete, isMobile }) => {
+  const labelClass = `text-[11px] ${isMobile ? 'text-zinc-400' : 'text-slate-500 dark:text-slate-400'}`;
+  const chipClass = (active: boolean) => `flex-1 py-1.5 text-[11px] font-medium rounded-md transition-all ${
+      active ? 'bg-brand-500 text-white' : isMobile ? 'bg-zinc-700 text-zinc-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+  }`;
+  const inputClass = `w-full mt-1 px-2 py-1 rounded-md text-xs font-mono border ${
+      isMobile ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200'
+  }`;
+
+  return (
+    <div className={`w-full p-3 rounded-xl border space-y-2 ${isMobile ? 'bg-zinc-800 border-zinc-700' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'}`}>
+        <div className={`flex items-center justify-between ${labelClass}`}>
+            <span>选区 {index + 1} / {count}（方向键微调，Shift 加速）</span>
+            <button onClick={onDelete} className="flex items-center gap-1 text-red-500 font-medium" title="删除选区">
+                <Trash2 size={12} /> 删除
+            </button>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+            {FIELDS.map(([key, label]) => (
+                <label key={key} className={labelClass}>
+                    {label}
+                    <input
+                        type="number" value={Math.round(selection[key])}
+                        onChange={(e) => onChange({ ...selection, [key]: Number(e.target.value) || 0 })}
+                        className={inputClass}
+                    />
+                </label>
+            ))}
+        </div>
+        <div className="flex gap-1">
+            {AXIS_LABELS.map(([axis, label]) => (
+                <button key={label} onClick={() => onChange({ ...selection, axis })} className={chipClass(selection.axis === axis)}>
+                    {label}
+                </button>
+            ))}
+        </div>
+        {/* Remove just this region from its own column/row; the rest of that strip slides in */}
+        <div className="flex gap-1">
+            <button onClick={() => onShiftDelete('up')} className={`${chipClass(false)} flex items-center justify-center gap-1`}>
+                <ArrowUp size={12} /> 删除并上移
+            </button>
+            <button onClick={() => onShiftDelete('left')} className={`${chipClass(false)} flex items-center justify-center gap-1`}>
+                <ArrowLeft size={12} /> 删除并左移
+            </button>
+        </div>
+    </div>
+  );
+};
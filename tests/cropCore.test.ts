@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cropPixels, getEnergyTable, getStripOperations, getStripPlan, invertRanges } from '../components/ImageCropper/logic/cropCore';
+import { getActualCells } from '../components/ImageCropper/logic/gridManipulation';
+import { fillChecker, gridOf, solidImage } from './helpers';
+
+// 100x100, two full-width cells split at y = 50. The top cell has content in rows 10-39 and
+// blank rows above and below it; the bottom cell is blank.
+const makeTable = () => {
+  const image = solidImage(100, 100);
+  fillChecker(image, 0, 10, 100, 30);
+  return { image, grid: gridOf(100, 100, [0, 50, 100], [0, 100]) };
+};
+
+// Rows 20-44 (25 lines) go, all inside the top cell
+const REMOVE_ROWS = [{ start: 20, end: 45 }];
+
+const sumDest = (ops: { destLen: number }[]) => ops.reduce((acc, op) => acc + op.destLen, 0);
+
+test('getActualCells finds one cell per closed region', () => {
+  const { grid } = makeTable();
+  assert.deepEqual(getActualCells(grid, 100, 100), [
+    { x: 0, y: 0, w: 100, h: 50 },
+    { x: 0, y: 50, w: 100, h: 50 }
+  ]);
+});
+
+test('getStripPlan spends blank lines first and leaves the rest as debt', () => {
+  const { image, grid } = makeTable();
+  const cells = getActualCells(grid, 100, 100);
+  const { pixelAction, cellSquishDebt } = getStripPlan(
+    100, REMOVE_ROWS, cells, 0, 100, getEnergyTable(image.data, 100), true, 'squish'
+  );
+
+  const cut = [...pixelAction.keys()].filter(i => pixelAction[i] === 1);
+  assert.equal(cut.length, 20);
+  assert.ok(cut.every(y => y < 10 || (y >= 40 && y < 50)), 'only blank rows are cut');
+  assert.equal(cellSquishDebt.get(0), 5);
+  assert.equal(cellSquishDebt.has(1), false);
+});
+
+test('getStripPlan with the cut strategy never leaves debt', () => {
+  const { image, grid } = makeTable();
+  const cells = getActualCells(grid, 100, 100);
+  const { pixelAction, cellSquishDebt } = getStripPlan(
+    100, REMOVE_ROWS, cells, 0, 100, getEnergyTable(image.data, 100), true, 'cut'
+  );
+  assert.equal(pixelAction.reduce((acc, v) => acc + v, 0), 25);
+  assert.equal(cellSquishDebt.size, 0);
+});
+
+test('getStripOperations without smart mode keeps everything outside the ranges', () => {
+  const ops = getStripOperations(100, REMOVE_ROWS, [], 0, 100, false, null, 100, 100, true);
+  assert.deepEqual(ops, invertRanges(100, REMOVE_ROWS).map(k => ({ srcStart: k.start, srcLen: k.end - k.start, destLen: k.end - k.start })));
+});
+
+test('squish and seam operations shrink the strip by exactly the removed amount', () => {
+  const { image, grid } = makeTable();
+  const cells = getActualCells(grid, 100, 100);
+  for (const strategy of ['squish', 'seam'] as const) {
+    const ops = getStripOperations(100, REMOVE_ROWS, cells, 0, 100, true, image.data, 100, 100, true, strategy);
+    assert.equal(sumDest(ops), 75, strategy);
+  }
+
+  // The seam strategy emits the indebted cell as one carved band: 30 kept lines, 5 carved away
+  const seamOps = getStripOperations(100, REMOVE_ROWS, cells, 0, 100, true, image.data, 100, 100, true, 'seam');
+  const carved = seamOps.find(op => op.carved);
+  assert.equal(carved?.srcLen, 30);
+  assert.equal(carved?.carved?.height, 25);
+  assert.equal(carved?.carved?.width, 100);
+});
+
+test('a cell that owes all its lines collapses to nothing with seam, as with squish', () => {
+  const image = solidImage(100, 100);
+  fillChecker(image, 0, 50, 100, 50);
+  const cells = getActualCells(gridOf(100, 100, [0, 50, 100], [0, 100]), 100, 100);
+  for (const strategy of ['squish', 'seam'] as const) {
+    const ops = getStripOperations(100, [{ start: 50, end: 100 }], cells, 0, 100, true, image.data, 100, 100, true, strategy);
+    assert.equal(sumDest(ops), 50, strategy);
+  }
+});
+
+test('cropPixels output size and grid follow the removed rows and columns', () => {
+  const { image, grid } = makeTable();
+  for (const strategy of ['cut', 'squish', 'seam'] as const) {
+    const rows = cropPixels(image, [{ x: 0, y: 20, w: 100, h: 25 }], grid, 'horizontal', true, strategy);
+    assert.equal(rows.image.width, 100, strategy);
+    assert.equal(rows.image.height, 75, strategy);
+    assert.deepEqual(rows.grid?.horizontal.map(l => l.pos), [0, 25, 75], strategy);
+
+    const both = cropPixels(image, [{ x: 60, y: 20, w: 10, h: 25 }], grid, 'both', true, strategy);
+    assert.equal(both.image.width, 90, strategy);
+    assert.equal(both.image.height, 75, strategy);
+  }
+});
@@ -0,0 +1,54 @@
+import { Grid, GridLine } from '../types';
+import { PixelBuffer } from '../components/ImageCropper/types';
+import { createPixelBuffer } from '../components/ImageCropper/logic/pixelBuffer';
+
+// Small synthetic images and grids for the DOM-free core
+
+export const solidImage = (width: number, height: number, value = 255): PixelBuffer => {
+  const image = createPixelBuffer(width, height);
+  image.data.fill(value);
+  return image;
+};
+
+export const setPixel = (image: PixelBuffer, x: number, y: number, [r, g, b]: number[]) => {
+  const i = (y * image.width + x) * 4;
+  image.data[i] = r;
+  image.data[i+1] = g;
+  image.data[i+2] = b;
+  image.data[i+3] = 255;
+};
+
+export const getPixel = (image: PixelBuffer, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i+1], image.data[i+2]];
+};
+
+// Black/white checkerboard over the rect: as busy as content gets
+export const fillChecker = (image: PixelBuffer, x0: number, y0: number, w: number, h: number) => {
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const v = (x + y) % 2 ? 0 : 255;
+      setPixel(image, x, y, [v, v, v]);
+    }
+  }
+};
+
+// Each row (or column) in its own grey level, so moved lines can be traced
+export const bandedImage = (width: number, height: number, axis: 'horizontal' | 'vertical'): PixelBuffer => {
+  const image = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = (axis === 'horizontal' ? y : x) * 10;
+      setPixel(image, x, y, [v, v, v]);
+    }
+  }
+  return image;
+};
+
+export const line = (pos: number, start: number, end: number, thickness = 1): GridLine => ({ pos, start, end, thickness });
+
+// Full-length lines at the given positions
+export const gridOf = (width: number, height: number, rows: number[], cols: number[]): Grid => ({
+  horizontal: rows.map(y => line(y, 0, width)),
+  vertical: cols.map(x => line(x, 0, height))
+});
@@ -0,0 +1,4 @@
+// Entry for `npm test`: bundled with the core by Vite, then run with `node --test`
+import './cropCore.test';
+import './reorder.test';
+import './insertSpace.test';
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandAxis } from '../components/ImageCropper/logic/cropCore';
+import { MAX_INSERT_AMOUNT, insertSpacePixels } from '../components/ImageCropper/logic/insertSpace';
+import { bandedImage, getPixel, line, setPixel } from './helpers';
+
+test('expandAxis shifts coordinates at or past each insert', () => {
+  const inserts = [{ start: 2, end: 5 }, { start: 8, end: 9 }];
+  assert.deepEqual([0, 1, 2, 7, 8, 10].map(v => expandAxis(v, inserts)), [0, 1, 5, 10, 12, 14]);
+});
+
+test('insertSpacePixels adds filled rows and shifts the rest down', () => {
+  const { image } = insertSpacePixels(bandedImage(4, 6, 'horizontal'), { axis: 'horizontal', amount: 3, color: '#ff0000' }, 2, null);
+  assert.equal(image.width, 4);
+  assert.equal(image.height, 9);
+  assert.deepEqual([0, 1, 5, 8].map(y => getPixel(image, 0, y)[0]), [0, 10, 20, 50]);
+  for (let y = 2; y < 5; y++) assert.deepEqual(getPixel(image, 0, y), [255, 0, 0]);
+});
+
+test('insertSpacePixels inserts columns and caps the amount', () => {
+  const wide = insertSpacePixels(bandedImage(6, 2, 'vertical'), { axis: 'vertical', amount: 2, color: null }, 3, null);
+  assert.equal(wide.image.width, 8);
+  assert.deepEqual(getPixel(wide.image, 5, 0), [30, 30, 30]);
+
+  const capped = insertSpacePixels(bandedImage(2, 2, 'horizontal'), { axis: 'horizontal', amount: 1e6, color: '#ffffff' }, 1, null);
+  assert.equal(capped.image.height, 2 + MAX_INSERT_AMOUNT);
+});
+
+test('insertSpacePixels moves lines past the insertion and paints crossing borders through it', () => {
+  const image = bandedImage(4, 6, 'horizontal');
+  for (let y = 0; y < 6; y++) setPixel(image, 1, y, [0, 0, 255]);
+  const grid = { horizontal: [line(1, 0, 4), line(4, 0, 4)], vertical: [line(1, 0, 6)] };
+
+  const res = insertSpacePixels(image, { axis: 'horizontal', amount: 3, color: '#ffffff' }, 2, grid);
+  assert.deepEqual(res.grid?.horizontal.map(l => l.pos), [1, 7]);
+  assert.deepEqual(res.grid?.vertical.map(({ start, end }) => ({ start, end })), [{ start: 0, end: 9 }]);
+  assert.deepEqual(getPixel(res.image, 1, 3), [0, 0, 255]);
+  assert.deepEqual(getPixel(res.image, 2, 3), [255, 255, 255]);
+});
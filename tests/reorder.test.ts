@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reorderPixels } from '../components/ImageCropper/logic/reorder';
+import { bandedImage, getPixel, line } from './helpers';
+
+// Grey level of each row (or column) after the move, divided back into source indices
+const order = (image: ReturnType<typeof bandedImage>, axis: 'horizontal' | 'vertical') => {
+  const size = axis === 'horizontal' ? image.height : image.width;
+  return Array.from({ length: size }, (_, i) => getPixel(image, axis === 'horizontal' ? 0 : i, axis === 'horizontal' ? i : 0)[0] / 10);
+};
+
+test('reorderPixels moves a row band down to the target line', () => {
+  const { image } = reorderPixels(bandedImage(3, 10, 'horizontal'), 'horizontal', { start: 2, end: 4 }, 8, null);
+  assert.deepEqual(order(image, 'horizontal'), [0, 1, 4, 5, 6, 7, 2, 3, 8, 9]);
+});
+
+test('reorderPixels moves a column band left to the target line', () => {
+  const { image } = reorderPixels(bandedImage(10, 3, 'vertical'), 'vertical', { start: 6, end: 9 }, 1, null);
+  assert.deepEqual(order(image, 'vertical'), [0, 6, 7, 8, 1, 2, 3, 4, 5, 9]);
+});
+
+test('reorderPixels carries grid lines with their rows and re-joins crossing lines', () => {
+  const grid = {
+    horizontal: [line(2, 0, 3), line(4, 0, 3), line(8, 0, 3)],
+    vertical: [line(1, 0, 10)]
+  };
+  const res = reorderPixels(bandedImage(3, 10, 'horizontal'), 'horizontal', { start: 2, end: 4 }, 8, grid);
+  assert.deepEqual(res.grid?.horizontal.map(l => l.pos).sort((a, b) => a - b), [2, 6, 8]);
+  assert.deepEqual(res.grid?.vertical.map(({ pos, start, end }) => ({ pos, start, end })), [{ pos: 1, start: 0, end: 10 }]);
+});
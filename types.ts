@@ -19,6 +19,18 @@ export interface Grid {
 
 export type CropMode = 'horizontal' | 'vertical' | 'both';
 
+// A region to remove. `axis` pins the direction it removes (rows, columns or both);
+// untagged selections follow the mode of the crop action.
+export interface CropSelection extends Rect {
+  axis?: CropMode;
+}
+
+// How smart mode absorbs a cut that runs through cell content
+export type SmartStrategy = 'cut' | 'squish' | 'seam';
+
+// Resampling kernel for squished segments
+export type ResampleFilter = 'nearest' | 'box' | 'lanczos';
+
 export interface HistoryItem {
   dataUrl: string;
   width: number;